@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+import { tsImport } from 'tsx/esm/api';
+
+await tsImport('../cli/tccompare.ts', import.meta.url);
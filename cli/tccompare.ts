@@ -0,0 +1,277 @@
+import { readFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { parseArgs } from 'node:util';
+import { parseHTML } from 'linkedom';
+import { setDomEnvironment } from '../services/dom';
+import { createParseDiagnostics, parseTestCaseContent } from '../services/excelParser';
+import { compareRawData, DEFAULT_COMPARISON_OPTIONS, extractTcPattern, getCleanTextContent } from '../services/comparisonEngine';
+import { parseHeaderAliases } from '../services/columnSchema';
+import { parseCategoryPatterns } from '../services/categoryRules';
+import { describeChanges } from '../services/changeNarrative';
+import { createPatch } from '../services/comparisonPatch';
+import { AUTO_ENCODING, resolveEncoding } from '../services/textEncoding';
+import { DEFAULT_TEXT_DIFF_OPTIONS } from '../services/textDiff';
+import { describeSuppressedDifferences, parseIgnoreRulesFile, RULES_FILE_EXTENSION } from '../services/ignoreRules';
+import { ChangeType, ComparisonMode, ComparisonOptions, ComparisonOutput, ComparisonResult, ComparisonRowPair, RowData } from '../types';
+
+// Exit codes follow diff(1): 0 = no changes, 1 = changes found, 2 = usage or input error.
+const EXIT_NO_CHANGES = 0;
+const EXIT_CHANGES = 1;
+const EXIT_ERROR = 2;
+
+const USAGE = `Usage: tccompare <original> <revised> [--mode step|content] [--format json|text|patch] [--threshold 0-1]
+                 [--key <column>] [--columns <column,column>] [--alias "<header>=<column>"]...
+                 [--sub-category <text|/regex/>]... [--encoding <charset>]
+                 [--granularity word|character|line] [--ignore-case] [--ignore-whitespace] [--ignore-punctuation]
+                 [--ignore-rules <file>]
+
+Compares the test step tables of two test case documents (.html, .mht, .xlsx or .csv).
+
+Options:
+  -m, --mode       Match rows by the key column ("step", default) or by Procedure content ("content")
+  -f, --format     Output format: "text" (default), "json", or "patch" (a patch the app can apply to other copies)
+  -t, --threshold  Content mode: minimum similarity (0-1) for two rows to be paired (default ${DEFAULT_COMPARISON_OPTIONS.similarityThreshold})
+  -k, --key        Column that identifies a step (default "${DEFAULT_COMPARISON_OPTIONS.schema.keyColumn}")
+  -c, --columns    Comma-separated columns to compare (default "${DEFAULT_COMPARISON_OPTIONS.schema.comparedColumns.join(',')}")
+  -a, --alias      Treat a header as another column name, e.g. "Expected Result=Expected Outcome" (repeatable)
+  -s, --sub-category  Category rows whose title contains this text or matches this /regex/ are sub-categories;
+                   replaces the defaults "${DEFAULT_COMPARISON_OPTIONS.subCategoryPatterns.join('", "')}" (repeatable)
+  -e, --encoding   Text encoding of HTML and CSV files, e.g. "big5" or "windows-1252" (default: detect from each file)
+  -g, --granularity  Compare cell text by "word" (default), "character" or "line"; Chinese and Japanese
+                   characters always count as words of their own
+  -i, --ignore-case         Do not count differences in upper and lower case as changes
+  -w, --ignore-whitespace   Do not count differences in spacing as changes
+  -p, --ignore-punctuation  Do not count differences in punctuation as changes
+  -r, --ignore-rules  Ignore rules exported from the app (${RULES_FILE_EXTENSION}): text they match, such as build
+                   numbers or dates, is not counted as a change
+  -h, --help       Show this message
+
+Exits with 0 when the documents are equivalent, 1 when changes were found and 2 on error.`;
+
+const STATUS_MARKERS: Record<ChangeType, string> = {
+  [ChangeType.ADDED]: '+',
+  [ChangeType.DELETED]: '-',
+  [ChangeType.MODIFIED]: '~',
+  [ChangeType.UNCHANGED]: ' ',
+  [ChangeType.MOVED]: '>',
+};
+
+const cellText = (row: RowData | null, header: string): string => {
+  const html = String(row?.[header] ?? '').replace(/<br\s*\/?>|<\/p>|<\/div>/gi, ' ');
+  return getCleanTextContent(html).replace(/\s+/g, ' ');
+};
+
+const describeRow = (row: RowData | null, result: ComparisonResult): string => {
+  const key = cellText(row, result.keyColumn);
+  const text = cellText(row, result.comparedColumns[0]);
+  return key ? `[${key}] ${text}` : text;
+};
+
+const formatPair = (pair: ComparisonRowPair, result: ComparisonResult): string[] => {
+  const marker = STATUS_MARKERS[pair.status];
+  if (pair.status !== ChangeType.MODIFIED && pair.status !== ChangeType.MOVED) {
+    return [`${marker} ${describeRow(pair.original ?? pair.revised, result)}`];
+  }
+
+  const lines = [`${marker} ${describeRow(pair.revised, result)}`];
+  if (pair.similarity !== undefined && pair.move?.role !== 'from') {
+    lines[0] += `  [${Math.round(pair.similarity * 100)}% similar]`;
+  }
+  if (pair.modification === 'formatting') {
+    lines[0] += '  (formatting only)';
+  }
+  if (pair.status === ChangeType.MOVED) {
+    const from = cellText(pair.original, result.keyColumn);
+    const to = cellText(pair.revised, result.keyColumn);
+    lines[0] += from || to ? `  (moved from ${from || '-'} to ${to || '-'})` : '  (moved)';
+  }
+  // The key always changes for a moved step, so only its content is diffed.
+  const headers = pair.status === ChangeType.MOVED ? result.comparedColumns : [result.keyColumn, ...result.comparedColumns];
+  for (const header of headers) {
+    const before = cellText(pair.original, header);
+    const after = cellText(pair.revised, header);
+    if (before !== after) {
+      lines.push(`    ${header}:`, `      - ${before}`, `      + ${after}`);
+    }
+  }
+  return lines;
+};
+
+const formatText = (output: ComparisonOutput, originalName: string, revisedName: string, mode: ComparisonMode): string => {
+  const { added, deleted, modified, formattingOnly, moved } = output.diffSummary;
+  const lines = [
+    `Comparing ${originalName} -> ${revisedName} (by ${mode === 'step' ? output.result.keyColumn : 'Content'})`,
+    `Added: ${added}  Deleted: ${deleted}  Modified: ${modified} (formatting only: ${formattingOnly})  Moved: ${moved}`,
+    '',
+    describeChanges(output.result),
+  ];
+  const suppressed = describeSuppressedDifferences(output.result.textDiff.ignoreRules, output.result.suppressedDifferences);
+  if (suppressed) lines.splice(2, 0, `Suppressed by ignore rules: ${suppressed}`);
+  // Moves are reported once, at their new position.
+  const changedRows = output.result.rows.filter(p => p.status !== ChangeType.UNCHANGED && p.move?.role !== 'from');
+  if (changedRows.length > 0) {
+    lines.push('');
+    changedRows.forEach(pair => lines.push(...formatPair(pair, output.result)));
+  }
+  return lines.join('\n');
+};
+
+const readTable = (path: string, label: string, options: ComparisonOptions): any[][] => {
+  try {
+    const diagnostics = createParseDiagnostics(path);
+    const rows = parseTestCaseContent(path, readFileSync(path), options.schema, options.encoding, diagnostics);
+    if (diagnostics.repairs.length > 0) {
+      console.warn(`Repaired rows in ${path}:\n${diagnostics.repairs.map(repair => `  row ${repair.row}: ${repair.message}`).join('\n')}`);
+    }
+    return rows;
+  } catch (e) {
+    throw new Error(`${e instanceof Error ? e.message : String(e)} in ${label} file: ${path}`);
+  }
+};
+
+const main = (argv: string[]): number => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        mode: { type: 'string', short: 'm', default: 'step' },
+        format: { type: 'string', short: 'f', default: 'text' },
+        threshold: { type: 'string', short: 't' },
+        key: { type: 'string', short: 'k' },
+        columns: { type: 'string', short: 'c' },
+        alias: { type: 'string', short: 'a', multiple: true },
+        'sub-category': { type: 'string', short: 's', multiple: true },
+        encoding: { type: 'string', short: 'e', default: AUTO_ENCODING },
+        granularity: { type: 'string', short: 'g', default: DEFAULT_TEXT_DIFF_OPTIONS.granularity },
+        'ignore-case': { type: 'boolean', short: 'i', default: false },
+        'ignore-whitespace': { type: 'boolean', short: 'w', default: false },
+        'ignore-punctuation': { type: 'boolean', short: 'p', default: false },
+        'ignore-rules': { type: 'string', short: 'r' },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : String(e));
+    console.error(USAGE);
+    return EXIT_ERROR;
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_NO_CHANGES;
+  }
+  if (positionals.length !== 2) {
+    console.error(USAGE);
+    return EXIT_ERROR;
+  }
+  if (values.mode !== 'step' && values.mode !== 'content') {
+    console.error(`Unknown mode "${values.mode}". Expected "step" or "content".`);
+    return EXIT_ERROR;
+  }
+  if (values.format !== 'text' && values.format !== 'json' && values.format !== 'patch') {
+    console.error(`Unknown format "${values.format}". Expected "json", "patch" or "text".`);
+    return EXIT_ERROR;
+  }
+
+  if (values.granularity !== 'word' && values.granularity !== 'character' && values.granularity !== 'line') {
+    console.error(`Unknown granularity "${values.granularity}". Expected "word", "character" or "line".`);
+    return EXIT_ERROR;
+  }
+
+  const options: ComparisonOptions = {
+    ...DEFAULT_COMPARISON_OPTIONS,
+    textDiff: {
+      granularity: values.granularity,
+      ignoreCase: values['ignore-case'],
+      ignoreWhitespace: values['ignore-whitespace'],
+      ignorePunctuation: values['ignore-punctuation'],
+      ignoreRules: [],
+    },
+  };
+  if (values['ignore-rules'] !== undefined) {
+    try {
+      options.textDiff.ignoreRules = parseIgnoreRulesFile(readFileSync(values['ignore-rules'], 'utf8')).rules;
+    } catch (e) {
+      console.error(`Could not read ignore rules from ${values['ignore-rules']}: ${e instanceof Error ? e.message : String(e)}`);
+      return EXIT_ERROR;
+    }
+  }
+  if (values.threshold !== undefined) {
+    const threshold = Number(values.threshold);
+    if (!(threshold >= 0 && threshold <= 1)) {
+      console.error(`Invalid threshold "${values.threshold}". Expected a number between 0 and 1.`);
+      return EXIT_ERROR;
+    }
+    options.similarityThreshold = threshold;
+  }
+
+  const schema = { ...options.schema };
+  if (values.alias !== undefined) {
+    const invalidAlias = values.alias.find(alias => Object.keys(parseHeaderAliases(alias)).length === 0);
+    if (invalidAlias !== undefined) {
+      console.error(`Invalid alias "${invalidAlias}". Expected "<header>=<column>".`);
+      return EXIT_ERROR;
+    }
+    schema.headerAliases = { ...schema.headerAliases, ...parseHeaderAliases(values.alias.join('\n')) };
+  }
+  if (values.key !== undefined) {
+    schema.keyColumn = values.key.trim();
+    schema.comparedColumns = schema.comparedColumns.filter(column => column !== schema.keyColumn);
+  }
+  if (values.columns !== undefined) {
+    schema.comparedColumns = values.columns.split(',').map(column => column.trim()).filter(Boolean);
+  }
+  if (!schema.keyColumn || schema.comparedColumns.length === 0) {
+    console.error('Expected a key column and at least one column to compare.');
+    return EXIT_ERROR;
+  }
+  options.schema = schema;
+
+  if (values['sub-category'] !== undefined) {
+    const { patterns, errors } = parseCategoryPatterns(values['sub-category'].join('\n'));
+    if (errors.length > 0) {
+      console.error(errors.join('\n'));
+      return EXIT_ERROR;
+    }
+    options.subCategoryPatterns = patterns;
+  }
+
+  if (values.encoding !== AUTO_ENCODING) {
+    if (!resolveEncoding(values.encoding)) {
+      console.error(`Unknown encoding "${values.encoding}".`);
+      return EXIT_ERROR;
+    }
+    options.encoding = values.encoding;
+  }
+
+  const { document, DOMParser } = parseHTML('<!DOCTYPE html><html><body></body></html>');
+  setDomEnvironment({ document, DOMParser });
+
+  const [originalPath, revisedPath] = positionals;
+  const mode: ComparisonMode = values.mode;
+  let output: ComparisonOutput;
+  try {
+    output = compareRawData(readTable(originalPath, 'original', options), readTable(revisedPath, 'revised', options), mode, options);
+  } catch (e) {
+    console.error(`Error: ${e instanceof Error ? e.message : String(e)}`);
+    return EXIT_ERROR;
+  }
+
+  if (values.format === 'json') {
+    console.log(JSON.stringify({ mode, original: originalPath, revised: revisedPath, ...output }, null, 2));
+  } else if (values.format === 'patch') {
+    console.log(JSON.stringify(createPatch(output.result, mode, basename(originalPath), basename(revisedPath)), null, 2));
+  } else {
+    const originalName = extractTcPattern(basename(originalPath)) ?? originalPath;
+    const revisedName = extractTcPattern(basename(revisedPath)) ?? revisedPath;
+    console.log(formatText(output, originalName, revisedName, mode));
+  }
+
+  const hasChanges = output.result.rows.some(p => p.status !== ChangeType.UNCHANGED);
+  return hasChanges ? EXIT_CHANGES : EXIT_NO_CHANGES;
+};
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,194 @@
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import { BatchFileUploader } from './BatchFileUploader';
+import { BatchDashboard } from './BatchDashboard';
+import { ComparisonModeSelector } from './ComparisonModeSelector';
+import { ColumnSchemaSettings } from './ColumnSchemaSettings';
+import { TextDiffSettings } from './TextDiffSettings';
+import { IgnoreRulesSettings } from './IgnoreRulesSettings';
+import { SummarySettings } from './SummarySettings';
+import { ComparisonResultDisplay } from './ComparisonResultDisplay';
+import { ComparisonProgress } from './ComparisonProgress';
+import { compareBatch, pairFilesByTcId } from '../services/batchComparison';
+import { parseTestCaseFile } from '../services/excelParser';
+import { extractTcPattern } from '../services/comparisonEngine';
+import { getChangesSummary } from '../services/summaryProviders';
+import { BatchEntry, ChangeSummary, ComparisonMode, ComparisonOptions, SummaryProviderConfig } from '../types';
+import { useDiffTask } from '../hooks/useDiffTask';
+import { useReviewStorageKey } from '../hooks/useChangeReviews';
+
+interface BatchComparisonProps {
+  mode: ComparisonMode;
+  onModeChange: (mode: ComparisonMode) => void;
+  options: ComparisonOptions;
+  onOptionsChange: (options: ComparisonOptions) => void;
+  summaryConfig: SummaryProviderConfig;
+  onSummaryConfigChange: (config: SummaryProviderConfig) => void;
+}
+
+export const BatchComparison: React.FC<BatchComparisonProps> = ({ mode, onModeChange, options, onOptionsChange, summaryConfig, onSummaryConfigChange }) => {
+  const [originalFiles, setOriginalFiles] = useState<File[]>([]);
+  const [revisedFiles, setRevisedFiles] = useState<File[]>([]);
+  const [entries, setEntries] = useState<BatchEntry[] | null>(null);
+  const [selectedTcId, setSelectedTcId] = useState<string | null>(null);
+  const [summaries, setSummaries] = useState<Record<string, ChangeSummary | null>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [availableHeaders, setAvailableHeaders] = useState<string[]>([]);
+  const hasCompared = useRef(false);
+  const { progress, run: runDiffJob, cancel: cancelComparison } = useDiffTask();
+
+  const isLoading = progress !== null;
+
+  const handleCompare = useCallback(async () => {
+    if (originalFiles.length === 0 || revisedFiles.length === 0) {
+      setError("Please select both the original and the revised test case files.");
+      return;
+    }
+
+    setError(null);
+    setEntries(null);
+    setSelectedTcId(null);
+    setSummaries({});
+
+    const pairs = pairFilesByTcId(originalFiles, revisedFiles);
+    if (pairs.length === 0) {
+      setError("None of the selected files are supported test case documents.");
+      return;
+    }
+
+    try {
+      const results = await runDiffJob(({ report, runTask }) => {
+        report('Comparing test cases', 0, pairs.length);
+        return compareBatch(
+          pairs,
+          (file: File) => parseTestCaseFile(file, options.schema, options.encoding),
+          (originalRawData, revisedRawData) => runTask({ kind: 'compare', originalRawData, revisedRawData, mode, options }),
+          (completed, total) => report('Comparing test cases', completed, total)
+        );
+      });
+      if (results) {
+        setEntries(results);
+        setAvailableHeaders(Array.from(new Set(results.flatMap(entry => entry.output?.result.headers ?? []))));
+        hasCompared.current = true;
+      }
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "An unknown error occurred during comparison.");
+      hasCompared.current = false;
+    }
+  }, [originalFiles, revisedFiles, mode, options, runDiffJob]);
+
+  useEffect(() => {
+    if (hasCompared.current) {
+      handleCompare();
+    }
+  }, [mode, options, handleCompare]);
+
+  const handleOriginalFilesSelect = useCallback((files: File[]) => {
+    cancelComparison();
+    setOriginalFiles(files);
+    setEntries(null);
+    setError(null);
+    hasCompared.current = false;
+  }, [cancelComparison]);
+
+  const handleRevisedFilesSelect = useCallback((files: File[]) => {
+    cancelComparison();
+    setRevisedFiles(files);
+    setEntries(null);
+    setError(null);
+    hasCompared.current = false;
+  }, [cancelComparison]);
+
+  const selectedEntry = entries?.find(e => e.tcId === selectedTcId) ?? null;
+  const reviewStorageKey = useReviewStorageKey(
+    originalFiles.find(file => file.name === selectedEntry?.originalFileName),
+    revisedFiles.find(file => file.name === selectedEntry?.revisedFileName)
+  );
+
+  // Summaries are generated lazily when a TC is opened, not for every TC in the batch.
+  useEffect(() => {
+    if (!selectedEntry?.output || summaries[selectedEntry.tcId] !== undefined) return;
+
+    const { tcId, output } = selectedEntry;
+    setSummaries(prev => ({ ...prev, [tcId]: null }));
+    getChangesSummary(summaryConfig, output.result, mode, output.diffSummary).then(summary => {
+      setSummaries(prev => ({ ...prev, [tcId]: summary }));
+    });
+  }, [selectedEntry, summaries, summaryConfig, mode]);
+
+  return (
+    <>
+      <div className="max-w-4xl mx-auto bg-white p-6 md:p-8 rounded-2xl shadow-lg border border-gray-200">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <BatchFileUploader
+            id="original-files"
+            label="Original Versions"
+            onFilesSelect={handleOriginalFilesSelect}
+            files={originalFiles}
+          />
+          <BatchFileUploader
+            id="revised-files"
+            label="Revised Versions"
+            onFilesSelect={handleRevisedFilesSelect}
+            files={revisedFiles}
+          />
+        </div>
+
+        <ComparisonModeSelector mode={mode} onModeChange={onModeChange} options={options} onOptionsChange={onOptionsChange} />
+        <TextDiffSettings options={options} onOptionsChange={onOptionsChange} />
+        <IgnoreRulesSettings options={options} onOptionsChange={onOptionsChange} />
+        <ColumnSchemaSettings options={options} onOptionsChange={onOptionsChange} availableHeaders={availableHeaders} />
+        <SummarySettings config={summaryConfig} onConfigChange={onSummaryConfigChange} />
+
+        <div className="text-center">
+          {isLoading ? (
+            <ComparisonProgress progress={progress} onCancel={cancelComparison} />
+          ) : (
+            <button
+              onClick={handleCompare}
+              disabled={originalFiles.length === 0 || revisedFiles.length === 0}
+              className="w-full md:w-auto inline-flex items-center justify-center px-8 py-3 bg-[#4A70A9] text-white font-semibold rounded-lg shadow-md hover:bg-[#3e6094] disabled:bg-[#a0b3ce] disabled:cursor-not-allowed transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#4A70A9]"
+            >
+              Compare Folders
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mt-6 p-4 bg-red-100 border border-red-400 text-red-700 rounded-lg" role="alert">
+            <p className="font-bold">Error</p>
+            <p>{error}</p>
+          </div>
+        )}
+      </div>
+
+      {entries && !selectedEntry && (
+        <div className="mt-12">
+          <BatchDashboard entries={entries} onSelect={entry => setSelectedTcId(entry.tcId)} />
+        </div>
+      )}
+
+      {selectedEntry?.output && (
+        <div className="mt-12 space-y-4">
+          <button
+            type="button"
+            onClick={() => setSelectedTcId(null)}
+            className="text-sm font-semibold text-[#4A70A9] hover:underline"
+          >
+            &larr; Back to batch overview
+          </button>
+          <ComparisonResultDisplay
+            key={selectedEntry.tcId}
+            result={selectedEntry.output.result}
+            summary={summaries[selectedEntry.tcId] ?? null}
+            mode={mode}
+            originalFileName={extractTcPattern(selectedEntry.originalFileName)}
+            revisedFileName={extractTcPattern(selectedEntry.revisedFileName)}
+            summaryConfig={summaryConfig}
+            reviewStorageKey={reviewStorageKey}
+          />
+        </div>
+      )}
+    </>
+  );
+};
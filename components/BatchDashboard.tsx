@@ -0,0 +1,94 @@
+import React from 'react';
+import { BatchEntry, BatchStatus } from '../types';
+
+interface BatchDashboardProps {
+  entries: BatchEntry[];
+  onSelect: (entry: BatchEntry) => void;
+}
+
+const STATUS_STYLES: Record<BatchStatus, { label: string; className: string }> = {
+  [BatchStatus.UNCHANGED]: { label: 'Unchanged', className: 'bg-gray-100 text-gray-700 border-gray-200' },
+  [BatchStatus.MODIFIED]: { label: 'Modified', className: 'bg-amber-100 text-amber-800 border-amber-200' },
+  [BatchStatus.ADDED]: { label: 'Added', className: 'bg-green-100 text-green-800 border-green-200' },
+  [BatchStatus.REMOVED]: { label: 'Removed', className: 'bg-red-100 text-red-800 border-red-200' },
+  [BatchStatus.ERROR]: { label: 'Error', className: 'bg-red-600 text-white border-red-700' },
+};
+
+const StatusBadge: React.FC<{ status: BatchStatus }> = ({ status }) => {
+  const { label, className } = STATUS_STYLES[status];
+  return <span className={`inline-block px-2 py-0.5 text-xs font-semibold rounded-full border ${className}`}>{label}</span>;
+};
+
+export const BatchDashboard: React.FC<BatchDashboardProps> = ({ entries, onSelect }) => {
+  const statusCounts = entries.reduce((counts, entry) => {
+    counts[entry.status] = (counts[entry.status] ?? 0) + 1;
+    return counts;
+  }, {} as Partial<Record<BatchStatus, number>>);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-200 overflow-hidden">
+      <div className="p-6 border-b border-gray-200">
+        <h2 className="text-2xl font-bold text-gray-800">Batch Overview</h2>
+        <p className="mt-1 text-sm text-gray-600">{entries.length} test case{entries.length === 1 ? '' : 's'} compared. Select a test case to see its detailed comparison.</p>
+        <div className="flex flex-wrap gap-3 mt-4">
+          {Object.values(BatchStatus).filter(status => statusCounts[status]).map(status => (
+            <div key={status} className="flex items-center gap-2 text-sm">
+              <StatusBadge status={status} />
+              <span className="font-semibold text-gray-700">{statusCounts[status]}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full">
+          <thead className="bg-gray-100">
+            <tr>
+              <th scope="col" className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">TC</th>
+              <th scope="col" className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Status</th>
+              <th scope="col" className="px-4 py-3 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">Added</th>
+              <th scope="col" className="px-4 py-3 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">Deleted</th>
+              <th scope="col" className="px-4 py-3 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">Modified</th>
+              <th scope="col" className="px-4 py-3 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">Moved</th>
+              <th scope="col" className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Files</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white">
+            {entries.map(entry => {
+              const canOpen = !!entry.output;
+              const summary = entry.output?.diffSummary;
+              return (
+                <tr
+                  key={entry.tcId}
+                  onClick={canOpen ? () => onSelect(entry) : undefined}
+                  className={`border-b border-gray-200 ${canOpen ? 'cursor-pointer hover:bg-[#4A70A9]/5' : ''}`}
+                >
+                  <td className="px-4 py-3 text-sm font-bold text-gray-800 whitespace-nowrap">{entry.tcId}</td>
+                  <td className="px-4 py-3 text-sm"><StatusBadge status={entry.status} /></td>
+                  <td className="px-4 py-3 text-sm text-right text-green-700">{summary ? summary.added : '—'}</td>
+                  <td className="px-4 py-3 text-sm text-right text-red-700">{summary ? summary.deleted : '—'}</td>
+                  <td className="px-4 py-3 text-sm text-right text-amber-700">{summary ? summary.modified : '—'}</td>
+                  <td className="px-4 py-3 text-sm text-right text-violet-700">{summary ? summary.moved : '—'}</td>
+                  <td className="px-4 py-3 text-xs text-gray-500">
+                    {entry.error ? (
+                      <span className="text-red-700">{entry.error}</span>
+                    ) : (
+                      <>
+                        <div>{entry.originalFileName ?? '—'}</div>
+                        <div>{entry.revisedFileName ?? '—'}</div>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {entries.length === 0 && (
+        <p className="p-6 text-center text-gray-500">No test case files were found in the selected folders.</p>
+      )}
+    </div>
+  );
+};
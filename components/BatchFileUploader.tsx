@@ -0,0 +1,129 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { UploadIcon } from './icons';
+import { detectFileFormat, SUPPORTED_FILE_EXTENSIONS } from '../services/excelParser';
+
+interface BatchFileUploaderProps {
+  id: string;
+  label: string;
+  onFilesSelect: (files: File[]) => void;
+  files: File[];
+}
+
+const readEntryFiles = (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return new Promise((resolve, reject) => (entry as FileSystemFileEntry).file(file => resolve([file]), reject));
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns results in chunks; keep reading until it yields an empty batch.
+    const readAll = (collected: FileSystemEntry[]): Promise<FileSystemEntry[]> => new Promise((resolve, reject) => {
+      reader.readEntries(batch => {
+        if (batch.length === 0) {
+          resolve(collected);
+        } else {
+          readAll([...collected, ...batch]).then(resolve, reject);
+        }
+      }, reject);
+    });
+    return readAll([]).then(children => Promise.all(children.map(readEntryFiles))).then(nested => nested.flat());
+  }
+  return Promise.resolve([]);
+};
+
+export const BatchFileUploader: React.FC<BatchFileUploaderProps> = ({ id, label, onFilesSelect, files }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [dropError, setDropError] = useState<string | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    // React does not type the non-standard directory picker attribute, so set it directly.
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files ?? []);
+    setDropError(null);
+    if (selected.length > 0) {
+      onFilesSelect(selected);
+    }
+    event.target.value = '';
+  };
+
+  const handleDragEnter = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(true);
+  }, []);
+
+  const handleDragLeave = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+  }, []);
+
+  const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+  }, []);
+
+  const handleDrop = useCallback(async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+    setDropError(null);
+    // The drop's file list is emptied once the handler yields, so keep it before reading folders.
+    const droppedFiles = Array.from<File>(e.dataTransfer.files ?? []);
+    const entries = Array.from<DataTransferItem>(e.dataTransfer.items ?? [])
+      .map(item => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+    let dropped = droppedFiles;
+    if (entries.length > 0) {
+      try {
+        dropped = (await Promise.all(entries.map(readEntryFiles))).flat();
+      } catch (err) {
+        console.warn("Could not read the dropped folder:", err);
+        // Only the dropped files themselves are left; folders among them cannot be read.
+        dropped = droppedFiles.filter(file => detectFileFormat(file.name));
+        setDropError("Some of the dropped items could not be read. Choose the files or the folder instead.");
+      }
+    }
+    if (dropped.length > 0) {
+      onFilesSelect(dropped);
+    }
+  }, [onFilesSelect]);
+
+  const acceptedCount = files.filter(f => detectFileFormat(f.name)).length;
+
+  return (
+    <div>
+      <span className="block text-sm font-medium text-gray-700 mb-2">{label}</span>
+      <div
+        onDragEnter={handleDragEnter}
+        onDragLeave={handleDragLeave}
+        onDragOver={handleDragOver}
+        onDrop={handleDrop}
+        className={`flex justify-center items-center w-full h-32 px-6 py-4 border-2 border-dashed rounded-lg transition-colors duration-200 ease-in-out
+          ${isDragging ? 'border-[#4A70A9] bg-[#4A70A9]/10' : 'border-gray-300 bg-gray-50 hover:border-gray-400'}`}
+      >
+        <div className="text-center">
+            <UploadIcon className="mx-auto h-8 w-8 text-gray-400"/>
+            {files.length > 0 ? (
+                <p className="mt-2 text-sm text-gray-800 font-semibold">
+                    {acceptedCount} test case file{acceptedCount === 1 ? '' : 's'} selected
+                </p>
+            ) : (
+                <p className="mt-2 text-sm text-gray-600">Drag and drop a folder or files</p>
+            )}
+            <p className="mt-1 text-sm">
+                <label htmlFor={`${id}-files`} className="font-semibold text-[#4A70A9] cursor-pointer hover:underline">Choose files</label>
+                <span className="text-gray-500"> or </span>
+                <label htmlFor={`${id}-folder`} className="font-semibold text-[#4A70A9] cursor-pointer hover:underline">choose a folder</label>
+            </p>
+        </div>
+        <input id={`${id}-files`} type="file" multiple className="sr-only" onChange={handleFileChange} accept={SUPPORTED_FILE_EXTENSIONS.join(',')}/>
+        <input id={`${id}-folder`} ref={folderInputRef} type="file" className="sr-only" onChange={handleFileChange}/>
+      </div>
+      {dropError && <p className="mt-1 text-xs text-red-700" role="alert">{dropError}</p>}
+    </div>
+  );
+};
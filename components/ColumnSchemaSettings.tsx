@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { ComparisonOptions } from '../types';
+import { DEFAULT_COLUMN_SCHEMA, formatHeaderAliases, getRequiredHeaders, parseHeaderAliases } from '../services/columnSchema';
+import { DEFAULT_SUB_CATEGORY_PATTERNS, formatCategoryPatterns, parseCategoryPatterns } from '../services/categoryRules';
+import { TEXT_ENCODINGS } from '../services/textEncoding';
+
+interface ColumnSchemaSettingsProps {
+  options: ComparisonOptions;
+  onOptionsChange: (options: ComparisonOptions) => void;
+  // Column names found in the last comparison; empty until files have been compared once.
+  availableHeaders: string[];
+}
+
+export const ColumnSchemaSettings: React.FC<ColumnSchemaSettingsProps> = ({ options, onOptionsChange, availableHeaders }) => {
+  const { schema, subCategoryPatterns } = options;
+  const [aliasText, setAliasText] = useState(() => formatHeaderAliases(schema.headerAliases));
+  const [patternText, setPatternText] = useState(() => formatCategoryPatterns(subCategoryPatterns));
+
+  useEffect(() => {
+    setAliasText(formatHeaderAliases(schema.headerAliases));
+  }, [schema.headerAliases]);
+
+  useEffect(() => {
+    setPatternText(formatCategoryPatterns(subCategoryPatterns));
+  }, [subCategoryPatterns]);
+
+  const columns = Array.from(new Set([...getRequiredHeaders(DEFAULT_COLUMN_SCHEMA), ...getRequiredHeaders(schema), ...availableHeaders]))
+    .filter(column => column !== '');
+
+  const updateSchema = (changes: Partial<ComparisonOptions['schema']>) => {
+    onOptionsChange({ ...options, schema: { ...schema, ...changes } });
+  };
+
+  const toggleComparedColumn = (column: string, checked: boolean) => {
+    const selected = checked ? [...schema.comparedColumns, column] : schema.comparedColumns.filter(c => c !== column);
+    // Keep the document's column order rather than the order the boxes were ticked in.
+    updateSchema({ comparedColumns: columns.filter(c => selected.includes(c)) });
+  };
+
+  const isAliasTextChanged = aliasText.trim() !== formatHeaderAliases(schema.headerAliases);
+  const parsedPatterns = parseCategoryPatterns(patternText);
+  const isPatternTextChanged = formatCategoryPatterns(parsedPatterns.patterns) !== formatCategoryPatterns(subCategoryPatterns);
+
+  return (
+    <details className="my-6 rounded-lg border border-gray-200 bg-gray-50 px-4 py-3">
+      <summary className="cursor-pointer text-sm font-medium text-gray-800">Column, Section & Encoding Settings</summary>
+      <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="key-column" className="block text-sm font-medium text-gray-700 mb-1">Key column</label>
+            <select
+              id="key-column"
+              value={schema.keyColumn}
+              onChange={(e) => updateSchema({
+                keyColumn: e.target.value,
+                comparedColumns: schema.comparedColumns.filter(c => c !== e.target.value),
+              })}
+              className="w-full rounded-md border-gray-300 text-sm focus:ring-[#4A70A9] focus:border-[#4A70A9]"
+            >
+              {columns.map(column => <option key={column} value={column}>{column}</option>)}
+            </select>
+          </div>
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-1">Compared columns</legend>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {columns.filter(column => column !== schema.keyColumn).map(column => (
+                <label key={column} className="inline-flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={schema.comparedColumns.includes(column)}
+                    disabled={schema.comparedColumns.length === 1 && schema.comparedColumns[0] === column}
+                    onChange={(e) => toggleComparedColumn(column, e.target.checked)}
+                    className="h-4 w-4 mr-2 rounded border-gray-300 text-[#4A70A9] focus:ring-[#4A70A9]"
+                  />
+                  {column}
+                </label>
+              ))}
+            </div>
+            {availableHeaders.length === 0 && (
+              <p className="mt-2 text-xs text-gray-500">Compare files once to list every column of your documents.</p>
+            )}
+          </fieldset>
+          <div>
+            <label htmlFor="file-encoding" className="block text-sm font-medium text-gray-700 mb-1">File encoding</label>
+            <select
+              id="file-encoding"
+              value={options.encoding}
+              onChange={(e) => onOptionsChange({ ...options, encoding: e.target.value })}
+              className="w-full rounded-md border-gray-300 text-sm focus:ring-[#4A70A9] focus:border-[#4A70A9]"
+            >
+              {TEXT_ENCODINGS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              Detection reads the byte order mark or the charset the file declares. Pick one if the text still shows as garbled.
+            </p>
+          </div>
+        </div>
+        <div>
+          <label htmlFor="header-aliases" className="block text-sm font-medium text-gray-700 mb-1">Header aliases</label>
+          <textarea
+            id="header-aliases"
+            rows={4}
+            value={aliasText}
+            onChange={(e) => setAliasText(e.target.value)}
+            placeholder="Expected Result = Expected Outcome"
+            className="w-full rounded-md border-gray-300 text-sm font-mono focus:ring-[#4A70A9] focus:border-[#4A70A9]"
+          />
+          <p className="mt-1 text-xs text-gray-500">One "Header in file = Column name" pair per line.</p>
+          <div className="mt-2 flex gap-2">
+            <button
+              type="button"
+              onClick={() => updateSchema({ headerAliases: parseHeaderAliases(aliasText) })}
+              disabled={!isAliasTextChanged}
+              className="px-3 py-1 text-sm font-semibold text-white bg-[#4A70A9] rounded-md hover:bg-[#3e6094] disabled:bg-[#a0b3ce] disabled:cursor-not-allowed"
+            >
+              Apply aliases
+            </button>
+            <button
+              type="button"
+              onClick={() => onOptionsChange({ ...options, schema: DEFAULT_COLUMN_SCHEMA })}
+              className="px-3 py-1 text-sm font-semibold text-[#4A70A9] hover:underline"
+            >
+              Reset columns
+            </button>
+          </div>
+          <label htmlFor="sub-category-patterns" className="block mt-6 text-sm font-medium text-gray-700 mb-1">Sub-category rows</label>
+          <textarea
+            id="sub-category-patterns"
+            rows={3}
+            value={patternText}
+            onChange={(e) => setPatternText(e.target.value)}
+            placeholder={formatCategoryPatterns(DEFAULT_SUB_CATEGORY_PATTERNS)}
+            className="w-full rounded-md border-gray-300 text-sm font-mono focus:ring-[#4A70A9] focus:border-[#4A70A9]"
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            A category row whose title contains one of these lines (or matches a /regular expression/) is a sub-category of the category above it.
+          </p>
+          {parsedPatterns.errors.map(error => (
+            <p key={error} className="mt-1 text-xs text-red-700">{error}</p>
+          ))}
+          <div className="mt-2 flex gap-2">
+            <button
+              type="button"
+              onClick={() => onOptionsChange({ ...options, subCategoryPatterns: parsedPatterns.patterns })}
+              disabled={!isPatternTextChanged || parsedPatterns.errors.length > 0}
+              className="px-3 py-1 text-sm font-semibold text-white bg-[#4A70A9] rounded-md hover:bg-[#3e6094] disabled:bg-[#a0b3ce] disabled:cursor-not-allowed"
+            >
+              Apply rules
+            </button>
+            <button
+              type="button"
+              onClick={() => onOptionsChange({ ...options, subCategoryPatterns: DEFAULT_SUB_CATEGORY_PATTERNS })}
+              className="px-3 py-1 text-sm font-semibold text-[#4A70A9] hover:underline"
+            >
+              Reset rules
+            </button>
+          </div>
+        </div>
+      </div>
+    </details>
+  );
+};
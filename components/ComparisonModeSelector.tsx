@@ -0,0 +1,64 @@
+import React from 'react';
+import { ComparisonMode, ComparisonOptions } from '../types';
+
+interface ComparisonModeSelectorProps {
+  mode: ComparisonMode;
+  onModeChange: (mode: ComparisonMode) => void;
+  options: ComparisonOptions;
+  onOptionsChange: (options: ComparisonOptions) => void;
+}
+
+const SIMILARITY_THRESHOLDS = [0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1];
+
+export const ComparisonModeSelector: React.FC<ComparisonModeSelectorProps> = ({ mode, onModeChange, options, onOptionsChange }) => (
+  <fieldset className="my-6">
+    <legend className="block text-sm font-medium text-gray-800 text-center mb-3">Comparison Method</legend>
+    <div className="flex justify-center items-center gap-4 md:gap-8">
+        <div className="flex items-center">
+        <input
+            id="compare-by-step"
+            name="comparison-mode"
+            type="radio"
+            value="step"
+            checked={mode === 'step'}
+            onChange={() => onModeChange('step')}
+            className="h-4 w-4 text-[#4A70A9] border-gray-300 focus:ring-[#4A70A9]"
+        />
+        <label htmlFor="compare-by-step" className="ml-2 block text-sm font-medium text-gray-700">
+            By Step Order
+        </label>
+        </div>
+        <div className="flex items-center">
+        <input
+            id="compare-by-content"
+            name="comparison-mode"
+            type="radio"
+            value="content"
+            checked={mode === 'content'}
+            onChange={() => onModeChange('content')}
+            className="h-4 w-4 text-[#4A70A9] border-gray-300 focus:ring-[#4A70A9]"
+        />
+        <label htmlFor="compare-by-content" className="ml-2 block text-sm font-medium text-gray-700">
+            By Content
+        </label>
+        </div>
+    </div>
+    {mode === 'content' && (
+        <div className="flex justify-center items-center mt-4">
+            <label htmlFor="similarity-threshold" className="text-sm font-medium text-gray-700 mr-2">
+                Pair rows when content is at least
+            </label>
+            <select
+                id="similarity-threshold"
+                value={options.similarityThreshold}
+                onChange={(e) => onOptionsChange({ ...options, similarityThreshold: Number(e.target.value) })}
+                className="rounded-md border-gray-300 text-sm focus:ring-[#4A70A9] focus:border-[#4A70A9]"
+            >
+                {SIMILARITY_THRESHOLDS.map(threshold => (
+                    <option key={threshold} value={threshold}>{Math.round(threshold * 100)}% similar</option>
+                ))}
+            </select>
+        </div>
+    )}
+  </fieldset>
+);
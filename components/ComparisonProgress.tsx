@@ -0,0 +1,35 @@
+import React from 'react';
+import { ComparisonProgressState } from '../hooks/useDiffTask';
+
+interface ComparisonProgressProps {
+  progress: ComparisonProgressState;
+  onCancel: () => void;
+}
+
+export const ComparisonProgress: React.FC<ComparisonProgressProps> = ({ progress, onCancel }) => {
+  const { label, completed, total } = progress;
+  const percent = total > 0 ? Math.min(100, Math.round((completed / total) * 100)) : null;
+
+  return (
+    <div className="max-w-md mx-auto" role="status" aria-live="polite">
+      <div className="flex justify-between items-center mb-2 text-sm">
+        <span className="font-medium text-gray-700">
+          {label}...{percent !== null && <span className="ml-1 text-gray-500">{percent}%</span>}
+        </span>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1 text-sm font-semibold text-[#4A70A9] border border-[#4A70A9] rounded-lg hover:bg-[#4A70A9]/10 transition-colors duration-200"
+        >
+          Cancel
+        </button>
+      </div>
+      <div className="h-2 w-full rounded-full bg-gray-200 overflow-hidden">
+        <div
+          className={`h-full rounded-full bg-[#4A70A9] transition-all duration-200 ${percent === null ? 'w-full animate-pulse' : ''}`}
+          style={percent === null ? undefined : { width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,38 @@
-import React, { useState } from 'react';
-import { ComparisonResult, ChangeType, RowData } from '../types';
-import { AiSparkleIcon } from './icons';
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { ChangeReview, ChangeSummary, ComparisonResult, ChangeType, ComparisonMode, ComparisonRowPair, DiffSummary, ReviewDecision, RowData, SectionAnalysis, SummaryProviderConfig, TextDiffOptions } from '../types';
+import { AiSparkleIcon, DownloadIcon } from './icons';
 import { TextDiff } from './TextDiff';
+import { SectionAnalysisPanel } from './SectionAnalysisPanel';
+import { SectionCounts, SectionNavigator, SectionNode } from './SectionNavigator';
+import { ChangeReviewControls, ReviewToolbar } from './ReviewControls';
+import { CategoryLevel, computeDiffSummary, getCategoryLevel, getCleanTextContent, TableColumns } from '../services/comparisonEngine';
+import { CATEGORY_TITLE_COLUMN } from '../services/columnSchema';
+import { stripColorStyles } from '../services/htmlUtils';
+import { buildHtmlReport } from '../services/reportExporter';
+import { createPatch, PATCH_FILE_EXTENSION } from '../services/comparisonPatch';
+import { buildReviewRecord, computeReviewProgress, formatReviewMarkdown, getReview, getReviewableChanges } from '../services/changeReview';
+import { analyzeSections, getSectionAnalysisKey, SectionAnalysisMap } from '../services/sectionAnalysis';
+import { getSummaryProvider } from '../services/summaryProviders';
+import { downloadTextFile, toFileNameSegment } from '../services/download';
+import { describeSuppressedDifferences } from '../services/ignoreRules';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import { useChangeReviews } from '../hooks/useChangeReviews';
+
+const ESTIMATED_ROW_HEIGHT = 72;
 
 interface ComparisonResultDisplayProps {
   result: ComparisonResult;
-  summary: string;
-  mode: 'step' | 'content';
+  /** Null while the summary is still being written. */
+  summary: ChangeSummary | null;
+  mode: ComparisonMode;
   originalFileName?: string;
   revisedFileName?: string;
+  /** Enables the per-section analysis when it names a usable AI provider. */
+  summaryConfig?: SummaryProviderConfig;
+  /** Asks the AI provider for a summary in place of the offline one, e.g. after the settings changed. */
+  onWriteSummary?: () => void;
+  /** Where the review of these two documents is saved; without it the review is not kept. */
+  reviewStorageKey?: string | null;
 }
 
 const getRowClass = (status: ChangeType) => {
@@ -19,91 +43,491 @@ const getRowClass = (status: ChangeType) => {
       return 'bg-red-50/70';
     case ChangeType.MODIFIED:
       return 'bg-amber-50/70';
+    case ChangeType.MOVED:
+      return 'bg-violet-50/70';
     default:
       return 'bg-white';
   }
 };
 
-const getCategoryClass = (rowData: RowData | null): string => {
-    if (!rowData) return '';
-
-    // Infer category status: has a procedure, but no step order or expected outcome.
-    const hasProcedure = rowData['Procedure'] && String(rowData['Procedure']).trim();
-    const hasStepOrder = rowData['Step Order'] && String(rowData['Step Order']).trim();
-    const hasExpectedOutcome = rowData['Expected Outcome'] && String(rowData['Expected Outcome']).trim();
-    
-    const isCategory = hasProcedure && !hasStepOrder && !hasExpectedOutcome;
-    
-    if (!isCategory) return '';
-    
-    const procedure = rowData['Procedure'] || '';
-    
-    const tempDiv = document.createElement('div');
-    tempDiv.innerHTML = procedure;
-    const procedureText = tempDiv.textContent || '';
-    
-    if (procedureText.includes('Full screen mode') || procedureText.includes('Test with')) {
-        return 'bg-[#31694E] text-white'; // Green for sub-category
+const getCategoryClass = (rowData: RowData | null, subCategoryPatterns: string[], columns: TableColumns): string => {
+    switch (getCategoryLevel(rowData, subCategoryPatterns, columns)) {
+        case CategoryLevel.SUB:
+            return 'bg-[#31694E] text-white'; // Green for sub-category
+        case CategoryLevel.PRIMARY:
+            return 'bg-[#4A70A9] text-white'; // Blue for primary category
+        default:
+            return '';
     }
-    return 'bg-[#4A70A9] text-white'; // Blue for primary category
+};
+
+const getRowElementId = (key: string | number) => `comparison-row-${key}`;
+
+/** Everything a table row needs, with the cell HTML already sanitized. Built once per result. */
+interface PreparedRow {
+    pair: ComparisonRowPair;
+    /** Position in the full row list. */
+    index: number;
+    categoryLevel: CategoryLevel | null;
+    categoryClass: string;
+    /** Title of a category row; empty for test steps. */
+    categoryTitle: string;
+    /** Indexes (into the full row list) of the primary and sub-category rows this row sits under. */
+    sectionIndexes: number[];
+    /** Key of the innermost section this row belongs to, as used by the section analysis. */
+    sectionKey: string;
+    originalCells: string[];
+    revisedCells: string[];
+    originalKey: string;
+    revisedKey: string;
+    isDiffRow: boolean;
+    counterpart?: ComparisonRowPair;
+    isCounterpartBelow: boolean;
+}
+
+const prepareRows = (rows: ComparisonRowPair[], keyColumn: string, comparedColumns: string[], subCategoryPatterns: string[]): PreparedRow[] => {
+    const rowIndexByKey = new Map<string | number, number>(rows.map((p, index) => [p.key, index]));
+    let primaryIndex: number | null = null;
+    let subIndex: number | null = null;
+
+    return rows.map((pair, index) => {
+        const { status, original, revised } = pair;
+        const categoryRow = original || revised;
+        const categoryLevel = getCategoryLevel(categoryRow, subCategoryPatterns, { keyColumn, comparedColumns });
+        if (categoryLevel === CategoryLevel.PRIMARY) {
+            primaryIndex = index;
+            subIndex = null;
+        } else if (categoryLevel === CategoryLevel.SUB) {
+            subIndex = index;
+        }
+        const categoryClass = getCategoryClass(categoryRow, subCategoryPatterns, { keyColumn, comparedColumns });
+        const counterpartIndex = pair.move ? rowIndexByKey.get(pair.move.counterpartKey) : undefined;
+        const sectionIndex = subIndex ?? primaryIndex;
+
+        return {
+            pair,
+            index,
+            categoryLevel,
+            categoryClass,
+            categoryTitle: categoryLevel ? getCleanTextContent(String(categoryRow?.[CATEGORY_TITLE_COLUMN] ?? '')) : '',
+            sectionIndexes: [primaryIndex, subIndex].filter((i): i is number => i !== null),
+            sectionKey: getSectionAnalysisKey(sectionIndex !== null ? rows[sectionIndex].key : undefined),
+            originalCells: comparedColumns.map(column => stripColorStyles(original?.[column] ?? '')),
+            revisedCells: comparedColumns.map(column => stripColorStyles(revised?.[column] ?? '')),
+            originalKey: stripColorStyles(original?.[keyColumn] ?? ''),
+            revisedKey: stripColorStyles(revised?.[keyColumn] ?? ''),
+            isDiffRow: !categoryClass && (status === ChangeType.MODIFIED || (status === ChangeType.MOVED && pair.move?.role === 'to')),
+            counterpart: counterpartIndex !== undefined ? rows[counterpartIndex] : undefined,
+            isCounterpartBelow: (counterpartIndex ?? 0) > index,
+        };
+    });
 };
 
 /**
- * Strips inline color styles and <font color> attributes from an HTML string 
- * to ensure app-defined CSS controls text color for readability.
- * @param htmlString The HTML content string.
- * @returns The sanitized HTML string.
+ * The category rows as a tree, each with the changes of the steps under it: a primary section
+ * counts its sub-sections too. Keyed by the index of the category row.
  */
-const stripColorStyles = (htmlString: string): string => {
-  if (typeof htmlString !== 'string' || !htmlString) return '';
-
-  try {
-    const tempDiv = document.createElement('div');
-    tempDiv.innerHTML = htmlString;
-  
-    const elements = tempDiv.querySelectorAll('*');
-  
-    elements.forEach(el => {
-      if (el instanceof HTMLElement) {
-        if (el.style.color) {
-          el.style.removeProperty('color');
+const buildSectionTree = (rows: PreparedRow[]): { sections: SectionNode[]; countsByIndex: Map<number, DiffSummary> } => {
+    const sections: SectionNode[] = [];
+    const countsByIndex = new Map<number, DiffSummary>();
+    const stepsByIndex = new Map<number, ComparisonRowPair[]>();
+
+    rows.forEach(row => {
+        if (row.categoryLevel) {
+            const node: SectionNode = { index: row.index, key: row.pair.key, title: row.categoryTitle, counts: { added: 0, deleted: 0, modified: 0, formattingOnly: 0, moved: 0 }, children: [] };
+            const parent = sections[sections.length - 1];
+            if (row.categoryLevel === CategoryLevel.SUB && parent) {
+                parent.children.push(node);
+            } else {
+                sections.push(node);
+            }
+            stepsByIndex.set(row.index, []);
+            return;
         }
-      }
-      if (el.tagName.toLowerCase() === 'font' && el.hasAttribute('color')) {
-        el.removeAttribute('color');
-      }
-      if (el.getAttribute('style') === '') {
-          el.removeAttribute('style');
-      }
+        row.sectionIndexes.forEach(index => stepsByIndex.get(index)?.push(row.pair));
     });
-  
-    return tempDiv.innerHTML;
-  } catch (e) {
-    console.error("Could not strip styles from html string", htmlString, e);
-    return htmlString; // Return original string on error
-  }
+
+    const countSection = (node: SectionNode) => {
+        node.counts = computeDiffSummary(stepsByIndex.get(node.index) ?? []);
+        countsByIndex.set(node.index, node.counts);
+        node.children.forEach(countSection);
+    };
+    sections.forEach(countSection);
+    return { sections, countsByIndex };
 };
 
+const countChanges = ({ added, deleted, modified, moved }: DiffSummary) => added + deleted + modified + moved;
+
+/**
+ * What the virtualized table lists: comparison rows, and the analysis of each section right after
+ * its category row (or before its first row when the category row is filtered out).
+ */
+type TableItem =
+    | { kind: 'row'; key: string | number; row: PreparedRow }
+    | { kind: 'analysis'; key: string; row: PreparedRow; analysis: SectionAnalysis };
+
+const buildTableItems = (rows: PreparedRow[], analyses: SectionAnalysisMap | null): TableItem[] => {
+    if (!analyses) return rows.map(row => ({ kind: 'row', key: row.pair.key, row }));
+
+    const items: TableItem[] = [];
+    let previousSectionKey: string | null = null;
+    rows.forEach(row => {
+        const analysis = row.sectionKey !== previousSectionKey ? analyses[row.sectionKey] : undefined;
+        previousSectionKey = row.sectionKey;
+        const analysisItem: TableItem | null = analysis ? { kind: 'analysis', key: `analysis-${row.sectionKey}`, row, analysis } : null;
+        const isCategory = row.categoryTitle !== '';
+        if (analysisItem && !isCategory) items.push(analysisItem);
+        items.push({ kind: 'row', key: row.pair.key, row });
+        if (analysisItem && isCategory) items.push(analysisItem);
+    });
+    return items;
+};
+
+interface MoveLinkProps {
+    pair: ComparisonRowPair;
+    counterpart: ComparisonRowPair | undefined;
+    isCounterpartBelow: boolean;
+    keyColumn: string;
+    onNavigate: (key: string | number) => void;
+}
+
+const MoveLink: React.FC<MoveLinkProps> = ({ pair, counterpart, isCounterpartBelow, keyColumn, onNavigate }) => {
+    if (!pair.move) return null;
+    const { role, counterpartKey, edited } = pair.move;
+    // The 'to' row carries both versions of the step, so it knows the old and the new key.
+    const destination = role === 'to' ? pair : counterpart;
+    const stepOrder = getCleanTextContent(String(role === 'from' ? destination?.revised?.[keyColumn] ?? '' : pair.original?.[keyColumn] ?? ''));
+    const label = role === 'from' ? 'Moved to' : 'Moved from';
+
+    return (
+        <button
+            type="button"
+            onClick={() => onNavigate(counterpartKey)}
+            title={role === 'from' ? 'Go to the new position of this step' : 'Go to the old position of this step'}
+            className="mb-1 inline-flex items-center px-2 py-0.5 text-xs font-semibold rounded-full bg-violet-100 text-violet-800 border border-violet-200 hover:bg-violet-200 whitespace-nowrap"
+        >
+            {stepOrder ? `${label} step ${stepOrder}` : `${label} another section`}
+            {edited && role === 'to' ? ' (edited)' : ''}
+            <span className="ml-1" aria-hidden="true">{isCounterpartBelow ? '\u2193' : '\u2191'}</span>
+        </button>
+    );
+};
+
+interface ComparisonTableRowProps {
+    row: PreparedRow;
+    mode: ComparisonMode;
+    keyColumn: string;
+    textDiff: TextDiffOptions;
+    measureRow: (element: HTMLElement | null) => void;
+    onNavigate: (key: string | number) => void;
+    /** Set on category rows. */
+    sectionCounts?: DiffSummary;
+    isCollapsed: boolean;
+    onToggleSection: (index: number) => void;
+    /** Set on rows that are reviewed: every change except the old position of a moved step. */
+    changeId?: string;
+    review?: ChangeReview;
+    onDecide: (changeId: string, decision: ReviewDecision) => void;
+    onComment: (changeId: string, text: string) => void;
+}
+
+// Memoized so scrolling only renders the rows that enter the window.
+const ComparisonTableRow: React.FC<ComparisonTableRowProps> = React.memo(({ row, mode, keyColumn, textDiff, measureRow, onNavigate, sectionCounts, isCollapsed, onToggleSection, changeId, review, onDecide, onComment }) => {
+    const { pair, categoryClass, originalCells, revisedCells, originalKey, revisedKey, isDiffRow } = row;
+    const { status, key } = pair;
+    const finalRowClass = categoryClass || getRowClass(status);
+
+    const baseCellClass = `px-4 py-3 text-sm border-b border-gray-200 whitespace-pre-wrap break-words align-top ${categoryClass ? '' : 'text-gray-800'}`;
+    const keyCellClass = `${baseCellClass.replace('align-top', 'align-middle')} text-center font-bold`;
+
+    const moveLink = pair.move && (
+        <MoveLink
+            pair={pair}
+            counterpart={row.counterpart}
+            isCounterpartBelow={row.isCounterpartBelow}
+            keyColumn={keyColumn}
+            onNavigate={onNavigate}
+        />
+    );
+
+    const sectionToggle = sectionCounts && (
+        <button
+            type="button"
+            onClick={() => onToggleSection(row.index)}
+            aria-expanded={!isCollapsed}
+            title={isCollapsed ? 'Expand this section' : 'Collapse this section'}
+            className="block mx-auto mb-1 w-6 h-6 rounded hover:bg-white/20"
+        >
+            <span aria-hidden="true">{isCollapsed ? '\u25B8' : '\u25BE'}</span>
+        </button>
+    );
 
-export const ComparisonResultDisplay: React.FC<ComparisonResultDisplayProps> = ({ result, summary, mode, originalFileName = 'Original', revisedFileName = 'Revised' }) => {
-  const { rows: pairedRows } = result;
+    const reviewCell = (
+        <td className={`${baseCellClass} border-l border-gray-200 ${categoryClass ? 'bg-white/90' : ''}`}>
+            {changeId && review ? (
+                <ChangeReviewControls changeId={changeId} review={review} onDecide={onDecide} onComment={onComment} />
+            ) : pair.move?.role === 'from' && (
+                <span className="text-xs text-gray-500">Reviewed at the new position</span>
+            )}
+        </td>
+    );
+
+    const contentCells = (
+        <>
+            {originalCells.map((cell, index) => (
+                <td key={`original-${index}`} className={`${baseCellClass} border-r border-gray-200`} dangerouslySetInnerHTML={{ __html: cell }}/>
+            ))}
+            {revisedCells.map((cell, index) => (
+                <td
+                    key={`revised-${index}`}
+                    className={`${baseCellClass} ${mode === 'content' || index < revisedCells.length - 1 ? 'border-r border-gray-200' : ''}`}
+                >
+                    {index === 0 && moveLink}
+                    {index === 0 && pair.modification === 'formatting' && (
+                        <span className="mb-1 block w-fit px-2 py-0.5 text-xs font-semibold rounded-full bg-amber-50 text-amber-700 border border-amber-200 whitespace-nowrap">Formatting only</span>
+                    )}
+                    {index === revisedCells.length - 1 && sectionCounts && (
+                        <SectionCounts counts={sectionCounts} className="float-right ml-2" />
+                    )}
+                    {isDiffRow && originalCells[index] !== cell ? (
+                        <TextDiff originalText={originalCells[index]} revisedText={cell} options={textDiff} />
+                    ) : (
+                        <span dangerouslySetInnerHTML={{ __html: cell }}/>
+                    )}
+                </td>
+            ))}
+        </>
+    );
+
+    if (mode === 'step') {
+        const stepOrder = pair.move?.role === 'to' || !pair.original ? revisedKey : originalKey;
+        return (
+            <tr id={getRowElementId(key)} data-virtual-key={key} ref={measureRow} className={finalRowClass}>
+                <td className={`${keyCellClass} border-r border-gray-200`}>
+                    {sectionToggle}
+                    <span dangerouslySetInnerHTML={{ __html: stepOrder }}/>
+                </td>
+                {contentCells}
+                {reviewCell}
+            </tr>
+        );
+    }
+
+    const isStepModified = isDiffRow && originalKey !== revisedKey;
+    return (
+        <tr id={getRowElementId(key)} data-virtual-key={key} ref={measureRow} className={finalRowClass}>
+            <td className={`${keyCellClass} border-r border-gray-200`}>
+                {sectionToggle}
+                <span dangerouslySetInnerHTML={{ __html: originalKey }}/>
+            </td>
+            {contentCells}
+            <td className={`${keyCellClass} ${isStepModified ? 'bg-amber-100/80' : ''}`}>
+                <span dangerouslySetInnerHTML={{ __html: revisedKey }} />
+                {isDiffRow && pair.similarity !== undefined && (
+                    <span
+                        className="block mt-1 px-1 rounded text-[10px] font-semibold bg-white/80 text-gray-600 border border-gray-200 whitespace-nowrap"
+                        title="Similarity of Procedure and Expected Outcome text used to pair these rows"
+                    >
+                        {Math.round(pair.similarity * 100)}% match
+                    </span>
+                )}
+            </td>
+            {reviewCell}
+        </tr>
+    );
+});
+
+export const ComparisonResultDisplay: React.FC<ComparisonResultDisplayProps> = ({ result, summary, mode, originalFileName = 'Original', revisedFileName = 'Revised', summaryConfig, onWriteSummary, reviewStorageKey = null }) => {
+  const { rows: pairedRows, keyColumn, comparedColumns, subCategoryPatterns } = result;
   const [showOnlyChanges, setShowOnlyChanges] = useState(false);
+  const [hideFormattingOnly, setHideFormattingOnly] = useState(false);
+  // Indexes of the category rows whose sections are folded away.
+  const [collapsedSections, setCollapsedSections] = useState<Set<number>>(() => new Set());
+  // A section picked in the sidebar; scrolled to once the rows it was hidden under are rendered.
+  const [pendingJumpKey, setPendingJumpKey] = useState<string | number | null>(null);
+  const [sectionAnalyses, setSectionAnalyses] = useState<SectionAnalysisMap | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  // Incremented to discard the answer of an analysis that belongs to an older result.
+  const analysisRun = useRef(0);
+  const headerRef = useRef<HTMLTableSectionElement>(null);
+  const [headerHeight, setHeaderHeight] = useState(0);
+
+  const preparedRows = useMemo(
+    () => prepareRows(pairedRows, keyColumn, comparedColumns, subCategoryPatterns),
+    [pairedRows, keyColumn, comparedColumns, subCategoryPatterns]
+  );
+  const { sections, countsByIndex } = useMemo(() => buildSectionTree(preparedRows), [preparedRows]);
+  const reviewableChanges = useMemo(() => getReviewableChanges(result), [result]);
+  const changeIdByKey = useMemo(() => new Map(reviewableChanges.map(change => [change.pair.key, change.id])), [reviewableChanges]);
+  const { reviews, reviewer, setReviewer, decide, addComment } = useChangeReviews(reviewStorageKey);
+  const reviewProgress = useMemo(() => computeReviewProgress(reviewableChanges, reviews), [reviewableChanges, reviews]);
+  const getRowReview = (key: string | number) => {
+    const changeId = changeIdByKey.get(key);
+    return changeId ? getReview(reviews, changeId) : undefined;
+  };
+  const isSectionChanged = useCallback((row: PreparedRow) => {
+    const counts = countsByIndex.get(row.index);
+    const changes = counts ? countChanges(counts) - (hideFormattingOnly ? counts.formattingOnly : 0) : 0;
+    return row.pair.status !== ChangeType.UNCHANGED || changes > 0;
+  }, [countsByIndex, hideFormattingOnly]);
+  const filteredRows = useMemo(() => preparedRows.filter(row => {
+    // Hidden when a section it sits in is collapsed; a category row stays visible when only its own section is.
+    if (row.sectionIndexes.some(index => index !== row.index && collapsedSections.has(index))) return false;
+    if (hideFormattingOnly && row.pair.modification === 'formatting') return false;
+    if (!showOnlyChanges) return true;
+    return row.categoryLevel ? isSectionChanged(row) : row.pair.status !== ChangeType.UNCHANGED;
+  }), [preparedRows, showOnlyChanges, hideFormattingOnly, collapsedSections, isSectionChanged]);
+  const tableItems = useMemo(() => buildTableItems(filteredRows, sectionAnalyses), [filteredRows, sectionAnalyses]);
+  const tableKeys = useMemo(() => tableItems.map(item => item.key), [tableItems]);
+  const rowIndexByKey = useMemo(() => new Map(preparedRows.map((row, index) => [row.pair.key, index])), [preparedRows]);
 
-  const filteredRows = showOnlyChanges 
-    ? pairedRows.filter(p => p.status !== ChangeType.UNCHANGED)
-    : pairedRows;
-  
   const hasChanges = pairedRows.some(p => p.status !== ChangeType.UNCHANGED);
+  const { added, deleted, modified, formattingOnly, moved } = useMemo(() => computeDiffSummary(pairedRows), [pairedRows]);
+  const suppressed = describeSuppressedDifferences(result.textDiff.ignoreRules, result.suppressedDifferences);
+  const { scrollRef, measureRow, range, scrollTop, firstVisibleIndex, scrollToKey } = useVirtualRows({ keys: tableKeys, estimatedRowHeight: ESTIMATED_ROW_HEIGHT });
+  useLayoutEffect(() => {
+    setHeaderHeight(headerRef.current?.offsetHeight ?? 0);
+  }, [keyColumn, comparedColumns, mode, originalFileName, revisedFileName]);
+
+  useEffect(() => {
+    analysisRun.current++;
+    setSectionAnalyses(null);
+    setAnalysisProgress(null);
+    setAnalysisError(null);
+    setCollapsedSections(new Set());
+    return () => { analysisRun.current++; };
+  }, [result]);
+
+  useEffect(() => {
+    if (pendingJumpKey === null) return;
+    scrollToKey(pendingJumpKey);
+    setPendingJumpKey(null);
+  }, [pendingJumpKey, tableItems, scrollToKey]);
+
+  const handleToggleSection = useCallback((index: number) => {
+    setCollapsedSections(previous => {
+      const next = new Set(previous);
+      if (!next.delete(index)) next.add(index);
+      return next;
+    });
+  }, []);
+
+  const handleJumpToSection = (section: SectionNode) => {
+    const row = preparedRows[section.index];
+    setCollapsedSections(previous => new Set([...previous].filter(index => index === section.index || !row.sectionIndexes.includes(index))));
+    if (showOnlyChanges && !isSectionChanged(row)) setShowOnlyChanges(false);
+    setPendingJumpKey(section.key);
+  };
+
+  const canAnalyzeSections = !!summaryConfig && !!getSummaryProvider(summaryConfig) && hasChanges;
+  const canWriteSummary = !!onWriteSummary && canAnalyzeSections && summary?.source === 'rules';
+
+  const handleAnalyzeSections = async () => {
+    if (!summaryConfig) return;
+    const run = ++analysisRun.current;
+    setAnalysisError(null);
+    setAnalysisProgress({ completed: 0, total: 0 });
+    try {
+      const analyses = await analyzeSections(summaryConfig, result, (completed, total) => {
+        if (run === analysisRun.current) setAnalysisProgress({ completed, total });
+      });
+      if (run === analysisRun.current) setSectionAnalyses(analyses);
+    } catch (err) {
+      if (run === analysisRun.current) setAnalysisError(err instanceof Error ? err.message : "Section analysis failed.");
+    } finally {
+      if (run === analysisRun.current) setAnalysisProgress(null);
+    }
+  };
+
+  const columnCount = comparedColumns.length * 2 + (mode === 'content' ? 3 : 2);
+
+  // Once the table is scrolled, the headings of the section at the top stay pinned under the column headers.
+  const firstVisibleItem = tableItems[firstVisibleIndex];
+  const activeSectionIndexes = firstVisibleItem?.row.sectionIndexes ?? [];
+  const stickySections = firstVisibleItem && scrollTop > 0
+    ? firstVisibleItem.row.sectionIndexes
+        .filter(index => firstVisibleItem.kind === 'analysis' || index !== rowIndexByKey.get(firstVisibleItem.row.pair.key))
+        .map(index => preparedRows[index])
+    : [];
+
+  const handleExportReport = () => {
+    const html = buildHtmlReport({
+      result,
+      summary,
+      mode,
+      showOnlyChanges,
+      hideFormattingOnly,
+      originalFileName,
+      revisedFileName,
+    });
+    const fileName = `comparison_${toFileNameSegment(originalFileName)}_vs_${toFileNameSegment(revisedFileName)}.html`;
+    downloadTextFile(fileName, html, 'text/html');
+  };
+
+  const handleExportPatch = () => {
+    const patch = createPatch(result, mode, originalFileName, revisedFileName);
+    const fileName = `patch_${toFileNameSegment(originalFileName)}_to_${toFileNameSegment(revisedFileName)}${PATCH_FILE_EXTENSION}`;
+    downloadTextFile(fileName, JSON.stringify(patch, null, 2), 'application/json');
+  };
+
+  const handleExportReview = (format: 'json' | 'markdown') => {
+    const record = buildReviewRecord(reviewableChanges, reviews, originalFileName, revisedFileName);
+    const baseName = `review_${toFileNameSegment(originalFileName)}_vs_${toFileNameSegment(revisedFileName)}`;
+    if (format === 'json') {
+      downloadTextFile(`${baseName}.json`, JSON.stringify(record, null, 2), 'application/json');
+    } else {
+      downloadTextFile(`${baseName}.md`, formatReviewMarkdown(record), 'text/markdown');
+    }
+  };
 
   return (
     <div className="space-y-10">
-      {/* AI Summary Section */}
+      {/* Summary Section */}
       <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-200">
         <div className="flex items-center gap-3 mb-4">
           <AiSparkleIcon className="h-8 w-8 text-indigo-500"/>
-          <h2 className="text-2xl font-bold text-gray-800">AI-Powered Summary</h2>
+          <h2 className="text-2xl font-bold text-gray-800">{summary?.source === 'rules' ? 'Change Summary' : 'AI-Powered Summary'}</h2>
         </div>
-        <p className="text-gray-600 prose">{summary}</p>
+        <p className="text-gray-600 prose whitespace-pre-line">{summary ? summary.text : 'Writing summary...'}</p>
+        {summaryConfig && hasChanges && (
+          <div className="mt-4 pt-4 border-t border-gray-200 flex flex-wrap items-center gap-3 text-sm">
+            {canWriteSummary && (
+              <button
+                type="button"
+                onClick={onWriteSummary}
+                title="Changing the settings compares again without asking the AI provider; this asks it for a summary of the result shown"
+                className="inline-flex items-center px-4 py-2 font-semibold text-indigo-700 border border-indigo-300 rounded-lg hover:bg-indigo-50"
+              >
+                <AiSparkleIcon className="h-4 w-4 mr-2" />
+                Write AI summary
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleAnalyzeSections}
+              disabled={!canAnalyzeSections || analysisProgress !== null}
+              className="inline-flex items-center px-4 py-2 font-semibold text-indigo-700 border border-indigo-300 rounded-lg hover:bg-indigo-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <AiSparkleIcon className="h-4 w-4 mr-2" />
+              {sectionAnalyses ? 'Analyze sections again' : 'Analyze each section'}
+            </button>
+            <span className="text-gray-500">
+              {analysisProgress
+                ? `Analyzing sections${analysisProgress.total > 0 ? ` (${analysisProgress.completed} of ${analysisProgress.total})` : ''}...`
+                : !canAnalyzeSections
+                  ? 'Choose an AI provider under Summary Settings for a per-section analysis with risk flags.'
+                  : sectionAnalyses
+                    ? `${Object.keys(sectionAnalyses).length} sections analyzed; see the table below.`
+                    : 'Summary, risk flags and regression focus for every changed section, shown in the table.'}
+            </span>
+          </div>
+        )}
+        {analysisError && (
+          <div className="mt-4 p-4 bg-red-100 border border-red-400 text-red-700 rounded-lg" role="alert">
+            <p>{analysisError}</p>
+          </div>
+        )}
       </div>
       
       {/* Detailed Changes Section */}
@@ -111,124 +535,178 @@ export const ComparisonResultDisplay: React.FC<ComparisonResultDisplayProps> = (
         <div className="p-6 border-b border-gray-200">
             <div className="flex justify-between items-center">
                 <h2 className="text-2xl font-bold text-gray-800">Detailed Comparison</h2>
-                {hasChanges && (
-                    <div className="relative flex items-center">
-                        <input
-                            type="checkbox"
-                            id="show-only-changes"
-                            checked={showOnlyChanges}
-                            onChange={(e) => setShowOnlyChanges(e.target.checked)}
-                            className="h-4 w-4 rounded border-gray-300 text-[#4A70A9] focus:ring-[#4A70A9]"
-                        />
-                        <label htmlFor="show-only-changes" className="ml-2 block text-sm font-medium text-gray-700">
-                            Show only changes
-                        </label>
-                    </div>
-                )}
+                <div className="flex items-center gap-6">
+                    {sections.length > 0 && (
+                        <div className="flex items-center gap-3 text-sm font-medium">
+                            <button type="button" onClick={() => setCollapsedSections(new Set())} className="text-[#4A70A9] hover:underline">
+                                Expand all
+                            </button>
+                            <button type="button" onClick={() => setCollapsedSections(new Set(sections.map(section => section.index)))} className="text-[#4A70A9] hover:underline">
+                                Collapse all
+                            </button>
+                        </div>
+                    )}
+                    {hasChanges && (
+                        <div className="relative flex items-center">
+                            <input
+                                type="checkbox"
+                                id="show-only-changes"
+                                checked={showOnlyChanges}
+                                onChange={(e) => setShowOnlyChanges(e.target.checked)}
+                                className="h-4 w-4 rounded border-gray-300 text-[#4A70A9] focus:ring-[#4A70A9]"
+                            />
+                            <label htmlFor="show-only-changes" className="ml-2 block text-sm font-medium text-gray-700">
+                                Show only changes
+                            </label>
+                        </div>
+                    )}
+                    {formattingOnly > 0 && (
+                        <div className="relative flex items-center">
+                            <input
+                                type="checkbox"
+                                id="hide-formatting-only"
+                                checked={hideFormattingOnly}
+                                onChange={(e) => setHideFormattingOnly(e.target.checked)}
+                                className="h-4 w-4 rounded border-gray-300 text-[#4A70A9] focus:ring-[#4A70A9]"
+                            />
+                            <label htmlFor="hide-formatting-only" className="ml-2 block text-sm font-medium text-gray-700" title="Hide modified rows whose words are unchanged, such as fonts or spans changed by a re-export">
+                                Hide formatting-only changes
+                            </label>
+                        </div>
+                    )}
+                    <button
+                        type="button"
+                        onClick={handleExportReport}
+                        className="inline-flex items-center px-4 py-2 text-sm font-semibold text-[#4A70A9] border border-[#4A70A9] rounded-lg hover:bg-[#4A70A9]/10 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#4A70A9]"
+                    >
+                        <DownloadIcon className="h-4 w-4 mr-2" />
+                        Export report
+                    </button>
+                    {hasChanges && (
+                        <button
+                            type="button"
+                            onClick={handleExportPatch}
+                            title="Download the changes as a patch that can be applied to another copy of the original document"
+                            className="inline-flex items-center px-4 py-2 text-sm font-semibold text-[#4A70A9] border border-[#4A70A9] rounded-lg hover:bg-[#4A70A9]/10 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#4A70A9]"
+                        >
+                            <DownloadIcon className="h-4 w-4 mr-2" />
+                            Export patch
+                        </button>
+                    )}
+                </div>
             </div>
+            <div className="flex flex-wrap gap-3 mt-4 text-sm font-semibold">
+                <span className="px-3 py-1 rounded-lg bg-green-100 text-green-800">{added} added</span>
+                <span className="px-3 py-1 rounded-lg bg-red-100 text-red-800">{deleted} deleted</span>
+                <span className="px-3 py-1 rounded-lg bg-amber-100 text-amber-800">{modified - formattingOnly} text changed</span>
+                <span className="px-3 py-1 rounded-lg bg-amber-50 text-amber-700 border border-amber-200">{formattingOnly} formatting only</span>
+                <span className="px-3 py-1 rounded-lg bg-violet-100 text-violet-800">{moved} moved</span>
+            </div>
+            {suppressed && (
+                <p className="mt-3 text-sm text-gray-600" title="Cells whose only difference was text matched by an ignore rule, counted per rule">
+                    Differences suppressed by ignore rules: {suppressed}
+                </p>
+            )}
             <div className="flex flex-wrap gap-x-4 gap-y-2 mt-4 text-sm">
                 <div className="flex items-center"><span className="w-4 h-4 rounded-sm bg-green-100 mr-2 border border-green-200"></span>Added Row</div>
                 <div className="flex items-center"><span className="w-4 h-4 rounded-sm bg-red-100 mr-2 border border-red-200"></span>Deleted Row</div>
                 <div className="flex items-center"><span className="w-4 h-4 rounded-sm bg-amber-100 mr-2 border border-amber-200"></span>Modified Row</div>
+                <div className="flex items-center"><span className="w-4 h-4 rounded-sm bg-violet-100 mr-2 border border-violet-200"></span>Moved Row</div>
                 <div className="flex items-center"><span className="px-1 rounded-sm bg-green-200 text-black mr-2">Added Text</span></div>
                 <div className="flex items-center"><del className="px-1 rounded-sm bg-red-200/60 mr-2 border border-red-300">Deleted Text</del></div>
+                <div className="flex items-center"><span className="px-1 rounded-sm bg-sky-100 mr-2 underline decoration-dotted decoration-sky-500 underline-offset-2" title="Same text, different formatting, such as a word that became bold">Formatting Changed</span></div>
             </div>
+            {reviewableChanges.length > 0 && (
+                <ReviewToolbar progress={reviewProgress} reviewer={reviewer} onReviewerChange={setReviewer} onExport={handleExportReview} />
+            )}
         </div>
         
-        <div className="overflow-x-auto">
-          <table className="min-w-full">
-            <thead className="bg-gray-100">
-              {mode === 'step' ? (
+        <div className="flex">
+          {sections.length > 0 && (
+            <SectionNavigator
+              sections={sections}
+              activeIndexes={activeSectionIndexes}
+              collapsedIndexes={collapsedSections}
+              onJump={handleJumpToSection}
+            />
+          )}
+          <div className="relative flex-1 min-w-0">
+            <div ref={scrollRef} className="overflow-auto max-h-[80vh]">
+              <table className="min-w-full table-fixed" style={{ minWidth: `${comparedColumns.length * 2 * 12 + 11}rem` }}>
+                <thead ref={headerRef} className="sticky top-0 z-10 bg-gray-100 shadow-sm">
                   <tr>
-                    <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wider w-[2%] border-r border-gray-200">Step Order</th>
-                    <th scope="col" className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider w-[24%] border-r border-gray-200">Procedure_<span className="font-bold">{originalFileName}</span></th>
-                    <th scope="col" className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider w-[24%] border-r border-gray-200">Expected Outcome_<span className="font-bold">{originalFileName}</span></th>
-                    <th scope="col" className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider w-[24%] border-r border-gray-200">Procedure_<span className="font-bold">{revisedFileName}</span></th>
-                    <th scope="col" className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider w-[24%]">Expected Outcome_<span className="font-bold">{revisedFileName}</span></th>
+                    <th scope="col" className="px-4 py-3 w-20 text-center text-xs font-semibold text-gray-600 uppercase tracking-wider border-r border-gray-200 break-words">
+                        {keyColumn}{mode === 'content' && <>_<span className="font-bold">{originalFileName}</span></>}
+                    </th>
+                    {comparedColumns.map(column => (
+                        <th key={`original-${column}`} scope="col" className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider border-r border-gray-200">{column}_<span className="font-bold">{originalFileName}</span></th>
+                    ))}
+                    {comparedColumns.map((column, index) => (
+                        <th
+                            key={`revised-${column}`}
+                            scope="col"
+                            className={`px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider ${mode === 'content' || index < comparedColumns.length - 1 ? 'border-r border-gray-200' : ''}`}
+                        >
+                            {column}_<span className="font-bold">{revisedFileName}</span>
+                        </th>
+                    ))}
+                    {mode === 'content' && (
+                        <th scope="col" className="px-4 py-3 w-20 text-center text-xs font-semibold text-gray-600 uppercase tracking-wider break-words">{keyColumn}_<span className="font-bold">{revisedFileName}</span></th>
+                    )}
+                    <th scope="col" className="px-4 py-3 w-44 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider border-l border-gray-200">Review</th>
                   </tr>
-              ) : (
-                  <tr>
-                    <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wider w-[2%] border-r border-gray-200">Step Order_<span className="font-bold">{originalFileName}</span></th>
-                    <th scope="col" className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider w-[24%] border-r border-gray-200">Procedure_<span className="font-bold">{originalFileName}</span></th>
-                    <th scope="col" className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider w-[24%] border-r border-gray-200">Expected Outcome_<span className="font-bold">{originalFileName}</span></th>
-                    <th scope="col" className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider w-[24%] border-r border-gray-200">Procedure_<span className="font-bold">{revisedFileName}</span></th>
-                    <th scope="col" className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider w-[24%] border-r border-gray-200">Expected Outcome_<span className="font-bold">{revisedFileName}</span></th>
-                    <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wider w-[2%]">Step Order_<span className="font-bold">{revisedFileName}</span></th>
-                  </tr>
-              )}
-            </thead>
-            <tbody className="bg-white">
-              {filteredRows.map((pair) => {
-                  const { status, original, revised, key } = pair;
-
-                  const categoryClass = getCategoryClass(original || revised);
-                  const finalRowClass = categoryClass || getRowClass(status);
-                  
-                  const originalProc = stripColorStyles(original?.['Procedure'] ?? '');
-                  const revisedProc = stripColorStyles(revised?.['Procedure'] ?? '');
-                  const originalOutcome = stripColorStyles(original?.['Expected Outcome'] ?? '');
-                  const revisedOutcome = stripColorStyles(revised?.['Expected Outcome'] ?? '');
-
-                  const baseCellClass = `px-4 py-3 text-sm border-b border-gray-200 whitespace-pre-wrap break-words align-top ${categoryClass ? '' : 'text-gray-800'}`;
-                  
-                  if (mode === 'step') {
-                    const stepOrder = stripColorStyles(original?.['Step Order'] ?? revised?.['Step Order'] ?? '');
-                    return (
-                        <tr key={key} className={finalRowClass}>
-                            <td className={`${baseCellClass.replace('align-top', 'align-middle')} text-center font-bold border-r border-gray-200`} dangerouslySetInnerHTML={{ __html: stepOrder }}/>
-                            
-                            <td className={`${baseCellClass} border-r border-gray-200`} dangerouslySetInnerHTML={{ __html: originalProc }}/>
-                            <td className={`${baseCellClass} border-r border-gray-200`} dangerouslySetInnerHTML={{ __html: originalOutcome }}/>
-
-                            <td className={`${baseCellClass} border-r border-gray-200`}>
-                                {status === ChangeType.MODIFIED && !categoryClass && originalProc !== revisedProc ? (
-                                <TextDiff originalText={originalProc} revisedText={revisedProc} />
-                                ) : (
-                                <span dangerouslySetInnerHTML={{ __html: revisedProc }}/>
-                                )}
-                            </td>
-                            <td className={baseCellClass}>
-                                {status === ChangeType.MODIFIED && !categoryClass && originalOutcome !== revisedOutcome ? (
-                                <TextDiff originalText={originalOutcome} revisedText={revisedOutcome} />
-                                ) : (
-                                <span dangerouslySetInnerHTML={{ __html: revisedOutcome }}/>
-                                )}
-                            </td>
-                        </tr>
-                    );
-                  } else { // mode === 'content'
-                    const originalStepOrder = stripColorStyles(original?.['Step Order'] ?? '');
-                    const revisedStepOrder = stripColorStyles(revised?.['Step Order'] ?? '');
-                    const isStepModified = status === ChangeType.MODIFIED && originalStepOrder !== revisedStepOrder && !categoryClass;
-                    return (
-                        <tr key={key} className={finalRowClass}>
-                            <td className={`${baseCellClass.replace('align-top', 'align-middle')} text-center font-bold border-r border-gray-200`} dangerouslySetInnerHTML={{ __html: originalStepOrder }}/>
-                            <td className={`${baseCellClass} border-r border-gray-200`} dangerouslySetInnerHTML={{ __html: originalProc }}/>
-                            <td className={`${baseCellClass} border-r border-gray-200`} dangerouslySetInnerHTML={{ __html: originalOutcome }}/>
-
-                            <td className={`${baseCellClass} border-r border-gray-200`}>
-                                {status === ChangeType.MODIFIED && !categoryClass && originalProc !== revisedProc ? (
-                                    <TextDiff originalText={originalProc} revisedText={revisedProc} />
-                                ) : (
-                                    <span dangerouslySetInnerHTML={{ __html: revisedProc }}/>
-                                )}
-                            </td>
-                            <td className={`${baseCellClass} border-r border-gray-200`}>
-                                {status === ChangeType.MODIFIED && !categoryClass && originalOutcome !== revisedOutcome ? (
-                                    <TextDiff originalText={originalOutcome} revisedText={revisedOutcome} />
-                                ) : (
-                                    <span dangerouslySetInnerHTML={{ __html: revisedOutcome }}/>
-                                )}
-                            </td>
-                            <td className={`${baseCellClass.replace('align-top', 'align-middle')} text-center font-bold ${isStepModified ? 'bg-amber-100/80' : ''}`}>
-                                <span dangerouslySetInnerHTML={{ __html: revisedStepOrder }} />
-                            </td>
-                        </tr>
-                    );
-                  }
-              })}
-            </tbody>
-          </table>
+                </thead>
+                <tbody className="bg-white">
+                  {range.paddingTop > 0 && (
+                      <tr aria-hidden="true"><td colSpan={columnCount} style={{ height: range.paddingTop, padding: 0 }} /></tr>
+                  )}
+                  {tableItems.slice(range.startIndex, range.endIndex).map(item => item.kind === 'analysis' ? (
+                      <tr key={item.key} data-virtual-key={item.key} ref={measureRow}>
+                          <td colSpan={columnCount} className="px-4 py-3 bg-indigo-50/60 border-b border-gray-200">
+                              <SectionAnalysisPanel analysis={item.analysis} />
+                          </td>
+                      </tr>
+                  ) : (
+                      <ComparisonTableRow
+                          key={item.key}
+                          row={item.row}
+                          mode={mode}
+                          keyColumn={keyColumn}
+                          textDiff={result.textDiff}
+                          measureRow={measureRow}
+                          onNavigate={scrollToKey}
+                          sectionCounts={countsByIndex.get(item.row.index)}
+                          isCollapsed={collapsedSections.has(item.row.index)}
+                          onToggleSection={handleToggleSection}
+                          changeId={changeIdByKey.get(item.row.pair.key)}
+                          review={getRowReview(item.row.pair.key)}
+                          onDecide={decide}
+                          onComment={addComment}
+                      />
+                  ))}
+                  {range.paddingBottom > 0 && (
+                      <tr aria-hidden="true"><td colSpan={columnCount} style={{ height: range.paddingBottom, padding: 0 }} /></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {stickySections.length > 0 && (
+                <div className="absolute left-0 right-0 z-10 shadow-sm" style={{ top: headerHeight }}>
+                    {stickySections.map(section => (
+                        <button
+                            key={section.pair.key}
+                            type="button"
+                            onClick={() => scrollToKey(section.pair.key)}
+                            title="Go to the start of this section"
+                            className={`block w-full px-4 py-1.5 text-left text-sm font-bold truncate ${section.categoryClass}`}
+                        >
+                            {section.categoryTitle}
+                        </button>
+                    ))}
+                </div>
+            )}
+  </div>
         </div>
         
         {filteredRows.length === 0 && (
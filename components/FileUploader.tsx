@@ -1,14 +1,18 @@
 import React, { useCallback, useState } from 'react';
 import { UploadIcon } from './icons';
+import { SUPPORTED_FILE_EXTENSIONS } from '../services/excelParser';
 
 interface FileUploaderProps {
   id: string;
   label: string;
   onFileSelect: (file: File) => void;
   fileName: string | null | undefined;
+  /** File types the picker offers; test case documents by default. */
+  accept?: string;
+  hint?: string;
 }
 
-export const FileUploader: React.FC<FileUploaderProps> = ({ id, label, onFileSelect, fileName }) => {
+export const FileUploader: React.FC<FileUploaderProps> = ({ id, label, onFileSelect, fileName, accept = SUPPORTED_FILE_EXTENSIONS.join(','), hint = '.HTML, .MHT, .XLSX or .CSV' }) => {
   const [isDragging, setIsDragging] = useState(false);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -67,11 +71,11 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ id, label, onFileSel
                     <p className="mt-2 text-sm text-gray-600">
                     <span className="font-semibold text-[#4A70A9]">Click to upload</span> or drag and drop
                     </p>
-                    <p className="text-xs text-gray-500">.HTML</p>
+                    <p className="text-xs text-gray-500">{hint}</p>
                 </>
             )}
         </div>
-        <input id={id} name={id} type="file" className="sr-only" onChange={handleFileChange} accept=".html"/>
+        <input id={id} name={id} type="file" className="sr-only" onChange={handleFileChange} accept={accept}/>
       </label>
     </div>
   );
@@ -0,0 +1,146 @@
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import { BatchFileUploader } from './BatchFileUploader';
+import { ComparisonModeSelector } from './ComparisonModeSelector';
+import { ColumnSchemaSettings } from './ColumnSchemaSettings';
+import { TextDiffSettings } from './TextDiffSettings';
+import { IgnoreRulesSettings } from './IgnoreRulesSettings';
+import { HistoryTimeline } from './HistoryTimeline';
+import { ComparisonProgress } from './ComparisonProgress';
+import { detectFileFormat, parseTestCaseFile } from '../services/excelParser';
+import { ComparisonMode, ComparisonOptions, VersionHistory } from '../types';
+import { useDiffTask } from '../hooks/useDiffTask';
+
+interface HistoryComparisonProps {
+  mode: ComparisonMode;
+  onModeChange: (mode: ComparisonMode) => void;
+  options: ComparisonOptions;
+  onOptionsChange: (options: ComparisonOptions) => void;
+}
+
+export const HistoryComparison: React.FC<HistoryComparisonProps> = ({ mode, onModeChange, options, onOptionsChange }) => {
+  const [versionFiles, setVersionFiles] = useState<File[]>([]);
+  const [history, setHistory] = useState<VersionHistory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [availableHeaders, setAvailableHeaders] = useState<string[]>([]);
+  const hasCompared = useRef(false);
+  const { progress, run: runDiffJob, cancel: cancelComparison } = useDiffTask();
+  const isLoading = progress !== null;
+
+  const handleCompare = useCallback(async () => {
+    if (versionFiles.length < 2) {
+      setError("Please select at least two versions of the test case.");
+      return;
+    }
+
+    setError(null);
+    setHistory(null);
+
+    try {
+      const versionHistory = await runDiffJob(async ({ report, runTask }) => {
+        const versions = [];
+        for (const file of versionFiles) {
+          report('Reading files', versions.length, versionFiles.length);
+          const rawData = await parseTestCaseFile(file, options.schema, options.encoding).catch(e => {
+            throw new Error(`${e.message} in file: ${file.name}`);
+          });
+          versions.push({ name: file.name, rawData });
+        }
+        return runTask({ kind: 'history', versions, mode, options }, 'Pairing rows');
+      });
+      if (versionHistory) {
+        setHistory(versionHistory);
+        setAvailableHeaders(versionHistory.headers);
+        hasCompared.current = true;
+      }
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "An unknown error occurred during comparison.");
+      hasCompared.current = false;
+    }
+  }, [versionFiles, mode, options, runDiffJob]);
+
+  useEffect(() => {
+    if (hasCompared.current) {
+      handleCompare();
+    }
+  }, [mode, options, handleCompare]);
+
+  const updateVersionFiles = (files: File[]) => {
+    cancelComparison();
+    setVersionFiles(files);
+    setHistory(null);
+    setError(null);
+    hasCompared.current = false;
+  };
+
+  const handleFilesSelect = useCallback((files: File[]) => {
+    // Revisions are usually numbered in their file names, so natural name order is the best first guess.
+    updateVersionFiles(files
+      .filter(file => detectFileFormat(file.name))
+      .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true })));
+  }, [cancelComparison]);
+
+  const moveVersion = (index: number, offset: number) => {
+    const reordered = [...versionFiles];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    updateVersionFiles(reordered);
+  };
+
+  return (
+    <>
+      <div className="max-w-4xl mx-auto bg-white p-6 md:p-8 rounded-2xl shadow-lg border border-gray-200">
+        <BatchFileUploader id="history-files" label="Versions of one test case" onFilesSelect={handleFilesSelect} files={versionFiles} />
+
+        {versionFiles.length > 0 && (
+          <div className="mt-4">
+            <p className="text-sm font-medium text-gray-700 mb-2">Order (oldest first)</p>
+            <ol className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+              {versionFiles.map((file, index) => (
+                <li key={`${file.name}-${index}`} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <span className="truncate"><span className="font-semibold text-gray-500 mr-2">v{index + 1}</span>{file.name}</span>
+                  <span className="flex items-center gap-1 shrink-0">
+                    <button type="button" onClick={() => moveVersion(index, -1)} disabled={index === 0} title="Move earlier" className="px-2 text-gray-600 hover:text-[#4A70A9] disabled:opacity-30">&uarr;</button>
+                    <button type="button" onClick={() => moveVersion(index, 1)} disabled={index === versionFiles.length - 1} title="Move later" className="px-2 text-gray-600 hover:text-[#4A70A9] disabled:opacity-30">&darr;</button>
+                    <button type="button" onClick={() => updateVersionFiles(versionFiles.filter((_, i) => i !== index))} title="Remove" className="px-2 text-gray-600 hover:text-red-600">&times;</button>
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        <ComparisonModeSelector mode={mode} onModeChange={onModeChange} options={options} onOptionsChange={onOptionsChange} />
+        <TextDiffSettings options={options} onOptionsChange={onOptionsChange} />
+        <IgnoreRulesSettings options={options} onOptionsChange={onOptionsChange} />
+        <ColumnSchemaSettings options={options} onOptionsChange={onOptionsChange} availableHeaders={availableHeaders} />
+
+        <div className="text-center">
+          {isLoading ? (
+            <ComparisonProgress progress={progress} onCancel={cancelComparison} />
+          ) : (
+            <button
+              onClick={handleCompare}
+              disabled={versionFiles.length < 2}
+              className="w-full md:w-auto inline-flex items-center justify-center px-8 py-3 bg-[#4A70A9] text-white font-semibold rounded-lg shadow-md hover:bg-[#3e6094] disabled:bg-[#a0b3ce] disabled:cursor-not-allowed transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#4A70A9]"
+            >
+              Build History
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mt-6 p-4 bg-red-100 border border-red-400 text-red-700 rounded-lg" role="alert">
+            <p className="font-bold">Error</p>
+            <p>{error}</p>
+          </div>
+        )}
+      </div>
+
+      {history && (
+        <div className="mt-12">
+          <HistoryTimeline history={history} />
+        </div>
+      )}
+    </>
+  );
+};
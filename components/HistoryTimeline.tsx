@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { ChangeType, StepHistory, VersionHistory } from '../types';
+import { TextDiff } from './TextDiff';
+import { CategoryLevel, getCategoryLevel, getCleanTextContent, getFirstTwoLinesKey } from '../services/comparisonEngine';
+import { stripColorStyles } from '../services/htmlUtils';
+import { getLatestRow } from '../services/versionHistory';
+
+interface HistoryTimelineProps {
+  history: VersionHistory;
+}
+
+const CHANGE_STYLES: Record<ChangeType, { label: string; className: string }> = {
+  [ChangeType.ADDED]: { label: 'Added', className: 'bg-green-100 text-green-800 border-green-200' },
+  [ChangeType.DELETED]: { label: 'Removed', className: 'bg-red-100 text-red-800 border-red-200' },
+  [ChangeType.MODIFIED]: { label: 'Changed', className: 'bg-amber-100 text-amber-800 border-amber-200' },
+  [ChangeType.MOVED]: { label: 'Moved', className: 'bg-violet-100 text-violet-800 border-violet-200' },
+  [ChangeType.UNCHANGED]: { label: 'Unchanged', className: '' },
+};
+
+const TimelineMarker: React.FC<{ change: ChangeType | null; isFirstVersion: boolean }> = ({ change, isFirstVersion }) => {
+  if (change === null) {
+    return <span className="block h-0.5 w-6 mx-auto bg-gray-200" aria-label="Not present" />;
+  }
+  if (change === ChangeType.UNCHANGED) {
+    return <span className={`block h-2.5 w-2.5 mx-auto rounded-full ${isFirstVersion ? 'bg-[#4A70A9]' : 'bg-gray-300'}`} aria-label={isFirstVersion ? 'Present' : 'Unchanged'} />;
+  }
+  const { label, className } = CHANGE_STYLES[change];
+  return <span className={`inline-block px-2 py-0.5 text-xs font-semibold rounded-full border whitespace-nowrap ${className}`}>{label}</span>;
+};
+
+interface StepDetailsProps {
+  step: StepHistory;
+  history: VersionHistory;
+}
+
+const StepDetails: React.FC<StepDetailsProps> = ({ step, history }) => {
+  const { versionNames, comparedColumns } = history;
+  const events = step.changes
+    .map((change, index) => ({ change, index }))
+    .filter(({ change, index }) => change !== null && (index === 0 || change !== ChangeType.UNCHANGED));
+
+  return (
+    <ol className="space-y-4">
+      {events.map(({ change, index }) => {
+        const row = step.rows[index];
+        const previous = index > 0 ? step.rows[index - 1] : null;
+        const showDiff = !!previous && (change === ChangeType.MODIFIED || change === ChangeType.MOVED);
+        return (
+          <li key={index} className="border-l-4 border-[#4A70A9] pl-4">
+            <p className="text-sm font-semibold text-gray-800">
+              v{index + 1} <span className="font-normal text-gray-500">{versionNames[index]}</span>
+              {' '}&middot;{' '}
+              {index === 0 ? 'First version' : CHANGE_STYLES[change].label}
+            </p>
+            {row ? (
+              <div className={`mt-2 grid gap-4 ${comparedColumns.length > 1 ? 'md:grid-cols-2' : ''}`}>
+                {comparedColumns.map(column => {
+                  const revisedHtml = stripColorStyles(row[column] ?? '');
+                  const previousHtml = stripColorStyles(previous?.[column] ?? '');
+                  return (
+                    <div key={column} className="text-sm text-gray-800 whitespace-pre-wrap break-words">
+                      <div className="text-[10px] font-semibold uppercase tracking-wider text-gray-500">{column}</div>
+                      {showDiff && previousHtml !== revisedHtml ? (
+                        <TextDiff originalText={previousHtml} revisedText={revisedHtml} options={history.textDiff} />
+                      ) : (
+                        <span dangerouslySetInnerHTML={{ __html: revisedHtml }}/>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="mt-1 text-sm italic text-red-700">Removed in this version.</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export const HistoryTimeline: React.FC<HistoryTimelineProps> = ({ history }) => {
+  const { versionNames, steps, keyColumn, comparedColumns } = history;
+  const [selectedStepId, setSelectedStepId] = useState<string | null>(null);
+  const [showOnlyChanged, setShowOnlyChanged] = useState(false);
+
+  const hasChanged = (step: StepHistory) => step.changes.some((change, index) => index > 0 && change !== null && change !== ChangeType.UNCHANGED);
+  const visibleSteps = showOnlyChanged ? steps.filter(hasChanged) : steps;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-200 overflow-hidden">
+      <div className="p-6 border-b border-gray-200">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-gray-800">Version History</h2>
+          <div className="relative flex items-center">
+            <input
+              type="checkbox"
+              id="history-show-only-changed"
+              checked={showOnlyChanged}
+              onChange={(e) => setShowOnlyChanged(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300 text-[#4A70A9] focus:ring-[#4A70A9]"
+            />
+            <label htmlFor="history-show-only-changed" className="ml-2 block text-sm font-medium text-gray-700">
+              Show only changed steps
+            </label>
+          </div>
+        </div>
+        <p className="mt-1 text-sm text-gray-600">
+          {steps.length} step{steps.length === 1 ? '' : 's'} across {versionNames.length} versions. Select a step to see how it changed.
+        </p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full">
+          <thead className="bg-gray-100">
+            <tr>
+              <th scope="col" className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider border-r border-gray-200">Step</th>
+              {versionNames.map((name, index) => (
+                <th key={index} scope="col" title={name} className="px-3 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                  v{index + 1}
+                  <span className="block max-w-[8rem] mx-auto truncate normal-case font-normal text-gray-500">{name}</span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white">
+            {visibleSteps.map(step => {
+              const latest = getLatestRow(step);
+              const categoryLevel = getCategoryLevel(latest, history.subCategoryPatterns, history);
+              const key = getCleanTextContent(String(latest?.[keyColumn] ?? ''));
+              const text = getFirstTwoLinesKey(String(latest?.[comparedColumns[0]] ?? ''));
+              const isSelected = step.id === selectedStepId;
+              const labelClass = categoryLevel === CategoryLevel.SUB
+                ? 'bg-[#31694E] text-white'
+                : categoryLevel === CategoryLevel.PRIMARY ? 'bg-[#4A70A9] text-white' : 'text-gray-800';
+              return (
+                <React.Fragment key={step.id}>
+                  <tr
+                    onClick={() => setSelectedStepId(isSelected ? null : step.id)}
+                    aria-expanded={isSelected}
+                    className={`border-b border-gray-200 cursor-pointer ${isSelected ? 'bg-[#4A70A9]/10' : 'hover:bg-[#4A70A9]/5'}`}
+                  >
+                    <td className={`px-4 py-2 text-sm border-r border-gray-200 max-w-md truncate ${labelClass}`}>
+                      {key && <span className="font-bold mr-2">{key}</span>}
+                      {text}
+                    </td>
+                    {step.changes.map((change, index) => (
+                      <td key={index} className="px-3 py-2 text-center">
+                        <TimelineMarker change={change} isFirstVersion={index === 0} />
+                      </td>
+                    ))}
+                  </tr>
+                  {isSelected && (
+                    <tr className="border-b border-gray-200 bg-gray-50">
+                      <td colSpan={versionNames.length + 1} className="px-6 py-4">
+                        <StepDetails step={step} history={history} />
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {visibleSteps.length === 0 && (
+        <p className="p-6 text-center text-gray-500">{showOnlyChanged ? "No step changed across these versions." : "No data to display."}</p>
+      )}
+    </div>
+  );
+};
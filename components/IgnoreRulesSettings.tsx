@@ -0,0 +1,232 @@
+import React, { useEffect, useState } from 'react';
+import { ComparisonOptions, IgnoreRule } from '../types';
+import {
+  IGNORE_RULE_PRESETS,
+  isValidIgnoreRule,
+  loadCurrentProject,
+  loadIgnoreRules,
+  loadProjectNames,
+  parseIgnoreRulesFile,
+  RULES_FILE_EXTENSION,
+  saveCurrentProject,
+  saveIgnoreRules,
+  serializeIgnoreRules,
+} from '../services/ignoreRules';
+import { downloadTextFile, toFileNameSegment } from '../services/download';
+
+interface IgnoreRulesSettingsProps {
+  options: ComparisonOptions;
+  onOptionsChange: (options: ComparisonOptions) => void;
+}
+
+const isSameRules = (a: IgnoreRule[], b: IgnoreRule[]) => JSON.stringify(a) === JSON.stringify(b);
+
+export const IgnoreRulesSettings: React.FC<IgnoreRulesSettingsProps> = ({ options, onOptionsChange }) => {
+  const { ignoreRules } = options.textDiff;
+  const [project, setProject] = useState(loadCurrentProject);
+  const [projects, setProjects] = useState(loadProjectNames);
+  const [newProject, setNewProject] = useState('');
+  const [draft, setDraft] = useState<IgnoreRule[]>(ignoreRules);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(ignoreRules);
+  }, [ignoreRules]);
+
+  const applyRules = (rules: IgnoreRule[]) => {
+    onOptionsChange({ ...options, textDiff: { ...options.textDiff, ignoreRules: rules } });
+  };
+
+  const openProject = (name: string, rules: IgnoreRule[] = loadIgnoreRules(name)) => {
+    saveCurrentProject(name);
+    saveIgnoreRules(name, rules);
+    setProject(name);
+    setProjects(Array.from(new Set([...loadProjectNames(), name])).sort((a, b) => a.localeCompare(b)));
+    setImportError(null);
+    applyRules(rules);
+  };
+
+  const handleCreateProject = (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = newProject.trim();
+    if (!name) return;
+    setNewProject('');
+    // A new project starts from the rules being edited.
+    openProject(name, projects.includes(name) ? undefined : draft);
+  };
+
+  const updateRule = (index: number, change: Partial<IgnoreRule>) => {
+    setDraft(rules => rules.map((rule, i) => (i === index ? { ...rule, ...change } : rule)));
+  };
+
+  const handleApply = () => {
+    saveIgnoreRules(project, draft);
+    applyRules(draft);
+  };
+
+  const handleExport = () => {
+    downloadTextFile(`${toFileNameSegment(project)}${RULES_FILE_EXTENSION}`, serializeIgnoreRules(project, ignoreRules), 'application/json');
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseIgnoreRulesFile(await file.text());
+      openProject(imported.project, imported.rules);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : "The rules could not be imported.");
+    }
+  };
+
+  const availablePresets = IGNORE_RULE_PRESETS.filter(preset => !draft.some(rule => rule.pattern === preset.pattern));
+  const hasInvalidRule = draft.some(rule => rule.enabled && !isValidIgnoreRule(rule));
+  const activeCount = ignoreRules.filter(rule => rule.enabled).length;
+
+  return (
+    <details className="my-6 rounded-lg border border-gray-200 bg-gray-50 px-4 py-3">
+      <summary className="cursor-pointer text-sm font-medium text-gray-800">
+        Ignore Rules <span className="font-normal text-gray-500">({project}: {activeCount} active)</span>
+      </summary>
+      <div className="mt-4 space-y-4">
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+          <div className="flex items-center">
+            <label htmlFor="ignore-rules-project" className="text-sm font-medium text-gray-700 mr-2">Project</label>
+            <select
+              id="ignore-rules-project"
+              value={project}
+              onChange={(e) => openProject(e.target.value)}
+              className="rounded-md border-gray-300 text-sm focus:ring-[#4A70A9] focus:border-[#4A70A9]"
+            >
+              {projects.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </div>
+          <form onSubmit={handleCreateProject} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={newProject}
+              onChange={(e) => setNewProject(e.target.value)}
+              placeholder="New project"
+              aria-label="New project name"
+              className="rounded-md border-gray-300 text-sm focus:ring-[#4A70A9] focus:border-[#4A70A9]"
+            />
+            <button
+              type="submit"
+              disabled={!newProject.trim()}
+              className="px-3 py-1 text-sm font-semibold text-[#4A70A9] hover:underline disabled:text-gray-400 disabled:no-underline disabled:cursor-not-allowed"
+            >
+              Add project
+            </button>
+          </form>
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Text a rule matches, such as a build number or a date, is not highlighted and does not mark a row as modified.
+          A pattern is plain text or a /regular expression/ with flags.
+        </p>
+
+        {draft.length === 0 ? (
+          <p className="text-sm text-gray-500">No rules yet. Add a preset or a rule of your own.</p>
+        ) : (
+          <ul className="space-y-2">
+            {draft.map((rule, index) => (
+              <li key={index}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => updateRule(index, { enabled: e.target.checked })}
+                    aria-label={`Use ${rule.name || 'rule'}`}
+                    className="h-4 w-4 rounded border-gray-300 text-[#4A70A9] focus:ring-[#4A70A9]"
+                  />
+                  <input
+                    type="text"
+                    value={rule.name}
+                    onChange={(e) => updateRule(index, { name: e.target.value })}
+                    placeholder="Name"
+                    aria-label="Rule name"
+                    className="w-40 rounded-md border-gray-300 text-sm focus:ring-[#4A70A9] focus:border-[#4A70A9]"
+                  />
+                  <input
+                    type="text"
+                    value={rule.pattern}
+                    onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                    placeholder="/Build \d+/i"
+                    aria-label="Rule pattern"
+                    className="flex-1 min-w-[12rem] rounded-md border-gray-300 text-sm font-mono focus:ring-[#4A70A9] focus:border-[#4A70A9]"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setDraft(rules => rules.filter((_, i) => i !== index))}
+                    className="px-3 py-1 text-sm font-semibold text-[#4A70A9] hover:underline"
+                  >
+                    Remove
+                  </button>
+                </div>
+                {!isValidIgnoreRule(rule) && (
+                  <p className="mt-1 text-xs text-red-700">
+                    {rule.pattern ? `"${rule.pattern}" is not a valid regular expression.` : "Enter a pattern."}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-gray-700">Add:</span>
+          {availablePresets.map(preset => (
+            <button
+              key={preset.pattern}
+              type="button"
+              onClick={() => setDraft(rules => [...rules, preset])}
+              title={preset.pattern}
+              className="px-2 py-0.5 text-xs font-medium text-[#4A70A9] border border-[#4A70A9] rounded-full hover:bg-[#4A70A9] hover:text-white"
+            >
+              {preset.name}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => setDraft(rules => [...rules, { name: '', pattern: '', enabled: true }])}
+            className="px-2 py-0.5 text-xs font-medium text-[#4A70A9] border border-[#4A70A9] rounded-full hover:bg-[#4A70A9] hover:text-white"
+          >
+            Custom rule
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={isSameRules(draft, ignoreRules) || hasInvalidRule}
+            className="px-3 py-1 text-sm font-semibold text-white bg-[#4A70A9] rounded-md hover:bg-[#3e6094] disabled:bg-[#a0b3ce] disabled:cursor-not-allowed"
+          >
+            Apply rules
+          </button>
+          <button
+            type="button"
+            onClick={() => setDraft(ignoreRules)}
+            disabled={isSameRules(draft, ignoreRules)}
+            className="px-3 py-1 text-sm font-semibold text-[#4A70A9] hover:underline disabled:text-gray-400 disabled:no-underline disabled:cursor-not-allowed"
+          >
+            Discard changes
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            className="px-3 py-1 text-sm font-semibold text-[#4A70A9] hover:underline"
+          >
+            Export rules
+          </button>
+          <label className="px-3 py-1 text-sm font-semibold text-[#4A70A9] hover:underline cursor-pointer">
+            Import rules
+            <input type="file" accept=".json,application/json" onChange={handleImport} className="sr-only" />
+          </label>
+        </div>
+        {importError && <p className="text-xs text-red-700">{importError}</p>}
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,67 @@
+import React from 'react';
+import { ParseDiagnostics } from '../services/excelParser';
+import { formatSanitizeReport } from '../services/htmlSanitizer';
+import { EncodingSource, TEXT_ENCODINGS } from '../services/textEncoding';
+
+interface ParseDiagnosticsPanelProps {
+  diagnostics: ParseDiagnostics[];
+}
+
+const ENCODING_SOURCES: Record<EncodingSource, string> = {
+  override: 'chosen in the settings',
+  bom: 'from the byte order mark',
+  declared: 'declared in the file',
+  default: 'detected',
+  fallback: 'the file is not valid UTF-8 and declares no encoding',
+};
+
+const describeEncoding = ({ encoding }: ParseDiagnostics): string => {
+  if (!encoding) return 'Workbook';
+  const label = TEXT_ENCODINGS.find(option => option.value === encoding.encoding)?.label ?? encoding.encoding;
+  return `${label}, ${ENCODING_SOURCES[encoding.source]}`;
+};
+
+export const ParseDiagnosticsPanel: React.FC<ParseDiagnosticsPanelProps> = ({ diagnostics }) => {
+  const repairCount = diagnostics.reduce((total, file) => total + file.repairs.length, 0);
+  const removedCount = diagnostics.reduce(
+    (total, file) => total + Object.values<number>(file.removed).reduce((sum, count) => sum + count, 0),
+    0
+  );
+  const notes = [
+    `${repairCount} ${repairCount === 1 ? 'row' : 'rows'} repaired`,
+    ...(removedCount > 0 ? [`${removedCount} unsafe ${removedCount === 1 ? 'item' : 'items'} removed`] : []),
+  ];
+
+  return (
+    <details className="mt-6 rounded-lg border border-gray-200 bg-gray-50 px-4 py-3">
+      <summary className="cursor-pointer text-sm font-medium text-gray-800">
+        Parse diagnostics <span className="font-normal text-gray-500">({notes.join(', ')})</span>
+      </summary>
+      <div className="mt-4 space-y-4">
+        {diagnostics.map((file, index) => (
+          <section key={`${index}-${file.fileName}`}>
+            <h3 className="text-sm font-semibold text-gray-800 break-all">{file.fileName}</h3>
+            <dl className="mt-1 grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm">
+              <dt className="text-gray-500">Encoding</dt>
+              <dd className="text-gray-700">{describeEncoding(file)}</dd>
+              <dt className="text-gray-500">Removed</dt>
+              <dd className="text-gray-700">{Object.keys(file.removed).length > 0 ? formatSanitizeReport(file.removed) : 'Nothing'}</dd>
+              <dt className="text-gray-500">Repaired rows</dt>
+              <dd className="text-gray-700">
+                {file.repairs.length === 0 ? 'None' : (
+                  <ul className="space-y-0.5">
+                    {file.repairs.map(repair => (
+                      <li key={repair.row}>
+                        <span className="font-medium">Row {repair.row}:</span> {repair.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </dd>
+            </dl>
+          </section>
+        ))}
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { FileUploader } from './FileUploader';
+import { DownloadIcon } from './icons';
+import { parseTestCaseFile } from '../services/excelParser';
+import { parsePatch } from '../services/comparisonPatch';
+import { applyPatch, buildPatchedHtml, describeHunk, PatchApplication as PatchApplicationResult } from '../services/patchApplier';
+import { downloadTextFile, toFileNameSegment } from '../services/download';
+import { ComparisonOptions, ComparisonPatch, HunkStatus } from '../types';
+
+interface PatchApplicationProps {
+  options: ComparisonOptions;
+}
+
+const HUNK_STATUS_CLASSES: Record<HunkStatus, string> = {
+  applied: 'bg-green-100 text-green-800',
+  skipped: 'bg-gray-100 text-gray-700',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export const PatchApplication: React.FC<PatchApplicationProps> = ({ options }) => {
+  const [documentFile, setDocumentFile] = useState<File | null>(null);
+  const [patchFile, setPatchFile] = useState<File | null>(null);
+  const [verifyContent, setVerifyContent] = useState(true);
+  const [outcome, setOutcome] = useState<{ patch: ComparisonPatch; application: PatchApplicationResult } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleApply = async () => {
+    if (!documentFile || !patchFile) {
+      setError("Please upload the document to patch and the patch file.");
+      return;
+    }
+    setError(null);
+    setOutcome(null);
+    setIsApplying(true);
+    try {
+      const patch = parsePatch(await patchFile.text());
+      const rawData = await parseTestCaseFile(documentFile, options.schema, options.encoding).catch(e => {
+        throw new Error(`${e.message} in document: ${documentFile.name}`);
+      });
+      const application = applyPatch(rawData, patch, { verifyContent, headerAliases: options.schema.headerAliases });
+      setOutcome({ patch, application });
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "The patch could not be applied.");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!outcome || !documentFile) return;
+    const html = buildPatchedHtml(outcome.application, documentFile.name, outcome.patch);
+    const baseName = documentFile.name.replace(/\.[^.]+$/, '');
+    downloadTextFile(`${toFileNameSegment(baseName)}_patched.html`, html, 'text/html');
+  };
+
+  const selectFile = (setFile: (file: File) => void) => (file: File) => {
+    setFile(file);
+    setOutcome(null);
+    setError(null);
+  };
+
+  const hunks = outcome?.application.hunks ?? [];
+  const countOf = (status: HunkStatus) => hunks.filter(hunk => hunk.status === status).length;
+
+  return (
+    <>
+      <div className="max-w-4xl mx-auto bg-white p-6 md:p-8 rounded-2xl shadow-lg border border-gray-200">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <FileUploader
+            id="patch-target-file"
+            label="Document to Patch"
+            onFileSelect={selectFile(setDocumentFile)}
+            fileName={documentFile?.name}
+          />
+          <FileUploader
+            id="patch-file"
+            label="Patch"
+            onFileSelect={selectFile(setPatchFile)}
+            fileName={patchFile?.name}
+            accept=".json,application/json"
+            hint="A patch exported from a comparison (.tcpatch.json)"
+          />
+        </div>
+
+        <div className="mb-6 flex items-start">
+          <input
+            type="checkbox"
+            id="verify-patch-content"
+            checked={verifyContent}
+            onChange={(e) => { setVerifyContent(e.target.checked); setOutcome(null); }}
+            className="h-4 w-4 mt-0.5 rounded border-gray-300 text-[#4A70A9] focus:ring-[#4A70A9]"
+          />
+          <label htmlFor="verify-patch-content" className="ml-2 text-sm text-gray-700">
+            <span className="font-medium">Only change steps that still have the original text.</span>
+            <span className="block text-gray-500">Turn off to carry the changes into copies worded differently, such as translations; patches made in step mode find steps by number there.</span>
+          </label>
+        </div>
+
+        <div className="text-center">
+          <button
+            onClick={handleApply}
+            disabled={!documentFile || !patchFile || isApplying}
+            className="w-full md:w-auto inline-flex items-center justify-center px-8 py-3 bg-[#4A70A9] text-white font-semibold rounded-lg shadow-md hover:bg-[#3e6094] disabled:bg-[#a0b3ce] disabled:cursor-not-allowed transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#4A70A9]"
+          >
+            {isApplying ? 'Applying...' : 'Apply Patch'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="mt-6 p-4 bg-red-100 border border-red-400 text-red-700 rounded-lg" role="alert">
+            <p className="font-bold">Error</p>
+            <p>{error}</p>
+          </div>
+        )}
+      </div>
+
+      {outcome && (
+        <div className="mt-12 max-w-5xl mx-auto bg-white rounded-2xl shadow-lg border border-gray-200 overflow-hidden">
+          <div className="p-6 border-b border-gray-200">
+            <div className="flex justify-between items-center">
+              <h2 className="text-2xl font-bold text-gray-800">Patch Report</h2>
+              <button
+                type="button"
+                onClick={handleDownload}
+                className="inline-flex items-center px-4 py-2 text-sm font-semibold text-[#4A70A9] border border-[#4A70A9] rounded-lg hover:bg-[#4A70A9]/10 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#4A70A9]"
+              >
+                <DownloadIcon className="h-4 w-4 mr-2" />
+                Download patched HTML
+              </button>
+            </div>
+            <p className="mt-2 text-sm text-gray-600">
+              Made from {outcome.patch.source.original} → {outcome.patch.source.revised}, steps found by {outcome.patch.keyedBy === 'step' ? outcome.patch.keyColumn : 'content'}.
+            </p>
+            <div className="flex flex-wrap gap-3 mt-4 text-sm font-semibold">
+              <span className={`px-3 py-1 rounded-lg ${HUNK_STATUS_CLASSES.applied}`}>{countOf('applied')} applied</span>
+              <span className={`px-3 py-1 rounded-lg ${HUNK_STATUS_CLASSES.skipped}`}>{countOf('skipped')} already applied</span>
+              <span className={`px-3 py-1 rounded-lg ${HUNK_STATUS_CLASSES.failed}`}>{countOf('failed')} failed</span>
+            </div>
+          </div>
+          {hunks.length === 0 ? (
+            <p className="p-6 text-center text-gray-500">The patch has no changes.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {hunks.map(hunk => (
+                <li key={hunk.index} className="px-6 py-3 flex items-start gap-4 text-sm">
+                  <span className="w-8 shrink-0 text-right text-gray-500">{hunk.index + 1}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-gray-800 break-words">{describeHunk(hunk.operation, outcome.patch.keyedBy, outcome.patch)}</p>
+                    {hunk.message && <p className="mt-1 text-gray-600">{hunk.message}</p>}
+                  </div>
+                  <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-semibold ${HUNK_STATUS_CLASSES[hunk.status]}`}>{hunk.status}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
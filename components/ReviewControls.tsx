@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { ChangeReview, ReviewDecision } from '../types';
+import { REVIEW_DECISION_LABELS, ReviewProgress } from '../services/changeReview';
+import { DownloadIcon } from './icons';
+
+const DECISION_BUTTONS: Array<{ decision: ReviewDecision; symbol: string; activeClass: string }> = [
+  { decision: 'accepted', symbol: '✓', activeClass: 'bg-green-600 border-green-600 text-white' },
+  { decision: 'rejected', symbol: '✗', activeClass: 'bg-red-600 border-red-600 text-white' },
+  { decision: 'needs-discussion', symbol: '?', activeClass: 'bg-amber-500 border-amber-500 text-white' },
+];
+
+const formatTimestamp = (iso: string) => new Date(iso).toLocaleString();
+
+interface ChangeReviewControlsProps {
+  changeId: string;
+  review: ChangeReview;
+  onDecide: (changeId: string, decision: ReviewDecision) => void;
+  onComment: (changeId: string, text: string) => void;
+}
+
+export const ChangeReviewControls: React.FC<ChangeReviewControlsProps> = ({ changeId, review, onDecide, onComment }) => {
+  const [isThreadOpen, setIsThreadOpen] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  const handleAddComment = () => {
+    if (!draft.trim()) return;
+    onComment(changeId, draft.trim());
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-2 text-gray-800">
+      <div className="flex gap-1" role="group" aria-label="Review decision">
+        {DECISION_BUTTONS.map(({ decision, symbol, activeClass }) => (
+          <button
+            key={decision}
+            type="button"
+            onClick={() => onDecide(changeId, decision)}
+            aria-pressed={review.decision === decision}
+            title={REVIEW_DECISION_LABELS[decision]}
+            className={`w-8 h-8 rounded-md border text-sm font-bold ${review.decision === decision ? activeClass : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-100'}`}
+          >
+            {symbol}
+          </button>
+        ))}
+      </div>
+      {review.decision && (
+        <p className="text-xs text-gray-600">
+          {REVIEW_DECISION_LABELS[review.decision]} by {review.decidedBy}
+          {review.decidedAt && <span className="block text-gray-500">{formatTimestamp(review.decidedAt)}</span>}
+        </p>
+      )}
+      <button
+        type="button"
+        onClick={() => setIsThreadOpen(open => !open)}
+        aria-expanded={isThreadOpen}
+        className="text-xs font-semibold text-[#4A70A9] hover:underline"
+      >
+        {review.comments.length > 0 ? `Comments (${review.comments.length})` : 'Add comment'}
+      </button>
+      {isThreadOpen && (
+        <div className="space-y-2">
+          {review.comments.map((comment, index) => (
+            <div key={index} className="p-2 rounded-md bg-white border border-gray-200 text-xs">
+              <p className="font-semibold">{comment.author} <span className="font-normal text-gray-500">{formatTimestamp(comment.createdAt)}</span></p>
+              <p className="mt-1 whitespace-pre-wrap">{comment.text}</p>
+            </div>
+          ))}
+          <textarea
+            rows={2}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Write a comment"
+            className="w-full rounded-md border-gray-300 text-xs focus:ring-[#4A70A9] focus:border-[#4A70A9]"
+          />
+          <button
+            type="button"
+            onClick={handleAddComment}
+            disabled={!draft.trim()}
+            className="px-2 py-1 text-xs font-semibold text-white bg-[#4A70A9] rounded-md hover:bg-[#3e6094] disabled:bg-[#a0b3ce] disabled:cursor-not-allowed"
+          >
+            Comment
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface ReviewToolbarProps {
+  progress: ReviewProgress;
+  reviewer: string;
+  onReviewerChange: (name: string) => void;
+  onExport: (format: 'json' | 'markdown') => void;
+}
+
+export const ReviewToolbar: React.FC<ReviewToolbarProps> = ({ progress, reviewer, onReviewerChange, onExport }) => {
+  const percent = progress.total > 0 ? Math.round((progress.reviewed / progress.total) * 100) : 100;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 flex flex-wrap items-center gap-x-6 gap-y-3 text-sm">
+      <div className="min-w-[16rem] flex-1">
+        <p className="font-semibold text-gray-700">
+          Review: {progress.reviewed} of {progress.total} changes decided
+          <span className="ml-2 font-normal text-gray-500">
+            {progress.accepted} accepted, {progress.rejected} rejected, {progress.needsDiscussion} need discussion
+          </span>
+        </p>
+        <div
+          className="mt-2 h-2 rounded-full bg-gray-200 overflow-hidden"
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={progress.total}
+          aria-valuenow={progress.reviewed}
+        >
+          <div className="h-full bg-[#4A70A9] transition-all duration-300" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-gray-700">
+        Reviewer
+        <input
+          type="text"
+          value={reviewer}
+          onChange={(e) => onReviewerChange(e.target.value)}
+          placeholder="Your name"
+          className="w-40 rounded-md border-gray-300 text-sm focus:ring-[#4A70A9] focus:border-[#4A70A9]"
+        />
+      </label>
+      <div className="flex gap-2">
+        {(['json', 'markdown'] as const).map(format => (
+          <button
+            key={format}
+            type="button"
+            onClick={() => onExport(format)}
+            className="inline-flex items-center px-3 py-1.5 font-semibold text-[#4A70A9] border border-[#4A70A9] rounded-lg hover:bg-[#4A70A9]/10"
+          >
+            <DownloadIcon className="h-4 w-4 mr-2" />
+            {format === 'json' ? 'Review (JSON)' : 'Review (Markdown)'}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import { SectionAnalysis } from '../types';
+import { AiSparkleIcon } from './icons';
+
+interface SectionAnalysisPanelProps {
+  analysis: SectionAnalysis;
+}
+
+export const SectionAnalysisPanel: React.FC<SectionAnalysisPanelProps> = ({ analysis }) => (
+  <div className="flex gap-3 text-sm text-gray-700">
+    <AiSparkleIcon className="h-5 w-5 shrink-0 text-indigo-500" />
+    <div className="space-y-2">
+      <p>{analysis.summary}</p>
+      {analysis.riskFlags.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wider text-red-700">Risk</p>
+          <ul className="mt-1 space-y-1">
+            {analysis.riskFlags.map((flag, index) => (
+              <li key={index} className="px-2 py-1 rounded-md bg-red-50 border border-red-200 text-red-800">{flag}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {analysis.regressionFocus.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wider text-gray-500">Regression focus</p>
+          <ul className="mt-1 list-disc list-inside">
+            {analysis.regressionFocus.map((focus, index) => <li key={index}>{focus}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  </div>
+);
@@ -0,0 +1,80 @@
+import React from 'react';
+import { DiffSummary } from '../types';
+
+/** A category row with the changes of the steps under it; primary sections list their sub-sections. */
+export interface SectionNode {
+  /** Index of the category row in the full row list. */
+  index: number;
+  key: string | number;
+  title: string;
+  counts: DiffSummary;
+  children: SectionNode[];
+}
+
+interface SectionCountsProps {
+  counts: DiffSummary;
+  className?: string;
+}
+
+export const SectionCounts: React.FC<SectionCountsProps> = ({ counts, className = '' }) => {
+  const badges = [
+    { value: counts.added, label: 'added', text: `+${counts.added}`, color: 'bg-green-100 text-green-800' },
+    { value: counts.deleted, label: 'deleted', text: `−${counts.deleted}`, color: 'bg-red-100 text-red-800' },
+    { value: counts.modified, label: counts.formattingOnly > 0 ? `modified (${counts.formattingOnly} formatting only)` : 'modified', text: `~${counts.modified}`, color: 'bg-amber-100 text-amber-800' },
+    { value: counts.moved, label: 'moved', text: `↕${counts.moved}`, color: 'bg-violet-100 text-violet-800' },
+  ].filter(badge => badge.value > 0);
+
+  if (badges.length === 0) {
+    return <span className={`text-xs font-normal opacity-75 whitespace-nowrap ${className}`}>no changes</span>;
+  }
+  return (
+    <span className={`inline-flex gap-1 whitespace-nowrap ${className}`}>
+      {badges.map(badge => (
+        <span key={badge.label} title={`${badge.value} ${badge.label}`} className={`px-1.5 rounded text-xs font-semibold ${badge.color}`}>
+          {badge.text}
+        </span>
+      ))}
+    </span>
+  );
+};
+
+interface SectionNavigatorProps {
+  sections: SectionNode[];
+  /** Category rows of the section at the top of the table. */
+  activeIndexes: number[];
+  collapsedIndexes: Set<number>;
+  onJump: (section: SectionNode) => void;
+}
+
+export const SectionNavigator: React.FC<SectionNavigatorProps> = ({ sections, activeIndexes, collapsedIndexes, onJump }) => {
+  const renderEntry = (section: SectionNode, isSub: boolean) => {
+    const isActive = activeIndexes.includes(section.index);
+    return (
+      <li key={section.key}>
+        <button
+          type="button"
+          onClick={() => onJump(section)}
+          title={section.title}
+          aria-current={isActive ? 'location' : undefined}
+          className={`w-full flex items-start justify-between gap-2 py-1.5 pr-3 text-left text-sm rounded-r-md border-l-4 hover:bg-gray-100 ${isSub ? 'pl-6' : 'pl-3 font-semibold'} ${isActive ? 'border-[#4A70A9] bg-[#4A70A9]/10 text-gray-900' : 'border-transparent text-gray-700'}`}
+        >
+          <span className="min-w-0 break-words">
+            {section.title || 'Untitled section'}
+            {collapsedIndexes.has(section.index) && <span className="ml-1 text-xs font-normal text-gray-500">(collapsed)</span>}
+          </span>
+          <SectionCounts counts={section.counts} className="shrink-0 mt-0.5" />
+        </button>
+        {section.children.length > 0 && (
+          <ul>{section.children.map(child => renderEntry(child, true))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <nav aria-label="Sections" className="hidden lg:block w-64 shrink-0 max-h-[80vh] overflow-y-auto border-r border-gray-200 bg-gray-50 py-2">
+      <p className="px-3 pb-2 text-xs font-semibold uppercase tracking-wider text-gray-500">Jump to section</p>
+      <ul>{sections.map(section => renderEntry(section, false))}</ul>
+    </nav>
+  );
+};
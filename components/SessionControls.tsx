@@ -0,0 +1,39 @@
+import React from 'react';
+import { DownloadIcon, UploadIcon } from './icons';
+
+interface SessionControlsProps {
+  canSave: boolean;
+  onSave: () => void;
+  onOpen: (file: File) => void;
+}
+
+export const SessionControls: React.FC<SessionControlsProps> = ({ canSave, onSave, onOpen }) => {
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      onOpen(file);
+    }
+    // Allows opening the same session file again after changing the view.
+    event.target.value = '';
+  };
+
+  return (
+    <div className="mt-4 flex flex-wrap justify-center gap-4 text-sm font-semibold">
+      <label className="inline-flex items-center cursor-pointer text-[#4A70A9] hover:underline">
+        <UploadIcon className="h-4 w-4 mr-1" />
+        Open saved session
+        <input type="file" accept=".json,application/json" onChange={handleFileChange} className="sr-only" />
+      </label>
+      <button
+        type="button"
+        onClick={onSave}
+        disabled={!canSave}
+        title="Save the documents, settings, result and summary to a file that can be opened here later or on another computer"
+        className="inline-flex items-center text-[#4A70A9] hover:underline disabled:text-gray-400 disabled:no-underline disabled:cursor-not-allowed"
+      >
+        <DownloadIcon className="h-4 w-4 mr-1" />
+        Save session
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React from 'react';
+import { SummaryProviderConfig, SummaryProviderKind } from '../types';
+import { DEFAULT_OPENAI_BASE_URL, DEFAULT_SUMMARY_MODELS, getSummaryProvider, SUMMARY_PROVIDER_LABELS } from '../services/summaryProviders';
+
+interface SummarySettingsProps {
+  config: SummaryProviderConfig;
+  onConfigChange: (config: SummaryProviderConfig) => void;
+}
+
+export const SummarySettings: React.FC<SummarySettingsProps> = ({ config, onConfigChange }) => {
+  const update = (changes: Partial<SummaryProviderConfig>) => onConfigChange({ ...config, ...changes });
+
+  const changeProvider = (provider: SummaryProviderKind) => {
+    // Models and keys do not carry over between providers.
+    update({
+      provider,
+      model: DEFAULT_SUMMARY_MODELS[provider],
+      apiKey: '',
+      baseUrl: config.baseUrl || DEFAULT_OPENAI_BASE_URL,
+    });
+  };
+
+  const isIncomplete = config.provider !== 'none' && !getSummaryProvider(config);
+  const inputClass = "w-full rounded-md border-gray-300 text-sm focus:ring-[#4A70A9] focus:border-[#4A70A9]";
+
+  return (
+    <details className="my-6 rounded-lg border border-gray-200 bg-gray-50 px-4 py-3">
+      <summary className="cursor-pointer text-sm font-medium text-gray-800">
+        Summary Settings
+        <span className="ml-2 font-normal text-gray-500">({SUMMARY_PROVIDER_LABELS[config.provider]})</span>
+      </summary>
+      <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="summary-provider" className="block text-sm font-medium text-gray-700 mb-1">Provider</label>
+          <select
+            id="summary-provider"
+            value={config.provider}
+            onChange={(e) => changeProvider(e.target.value as SummaryProviderKind)}
+            className={inputClass}
+          >
+            {(Object.keys(SUMMARY_PROVIDER_LABELS) as SummaryProviderKind[]).map(provider => (
+              <option key={provider} value={provider}>{SUMMARY_PROVIDER_LABELS[provider]}</option>
+            ))}
+          </select>
+        </div>
+        {config.provider !== 'none' && (
+          <div>
+            <label htmlFor="summary-model" className="block text-sm font-medium text-gray-700 mb-1">Model</label>
+            <input
+              id="summary-model"
+              type="text"
+              value={config.model}
+              onChange={(e) => update({ model: e.target.value })}
+              placeholder={DEFAULT_SUMMARY_MODELS[config.provider]}
+              className={inputClass}
+            />
+          </div>
+        )}
+        {config.provider === 'openai' && (
+          <div>
+            <label htmlFor="summary-base-url" className="block text-sm font-medium text-gray-700 mb-1">Server URL</label>
+            <input
+              id="summary-base-url"
+              type="url"
+              value={config.baseUrl}
+              onChange={(e) => update({ baseUrl: e.target.value })}
+              placeholder={DEFAULT_OPENAI_BASE_URL}
+              className={inputClass}
+            />
+          </div>
+        )}
+        {config.provider !== 'none' && (
+          <div>
+            <label htmlFor="summary-api-key" className="block text-sm font-medium text-gray-700 mb-1">
+              API key{config.provider === 'openai' && <span className="font-normal text-gray-500"> (optional for local servers)</span>}
+            </label>
+            <input
+              id="summary-api-key"
+              type="password"
+              autoComplete="off"
+              value={config.apiKey}
+              onChange={(e) => update({ apiKey: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        )}
+      </div>
+      <p className="mt-3 text-xs text-gray-500">
+        {isIncomplete
+          ? "This provider is missing settings, so the rule-based summary is used instead."
+          : "Settings are stored in this browser. Without a provider, summaries are built from the comparison by fixed rules."}
+      </p>
+    </details>
+  );
+};
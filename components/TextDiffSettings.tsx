@@ -0,0 +1,55 @@
+import React from 'react';
+import { ComparisonOptions, DiffGranularity, TextDiffOptions } from '../types';
+
+interface TextDiffSettingsProps {
+  options: ComparisonOptions;
+  onOptionsChange: (options: ComparisonOptions) => void;
+}
+
+const GRANULARITY_LABELS: Record<DiffGranularity, string> = {
+  word: 'Words',
+  character: 'Characters',
+  line: 'Lines',
+};
+
+type IgnoreOption = 'ignoreCase' | 'ignoreWhitespace' | 'ignorePunctuation';
+
+const IGNORE_OPTIONS: Array<{ option: IgnoreOption; label: string }> = [
+  { option: 'ignoreCase', label: 'Ignore case' },
+  { option: 'ignoreWhitespace', label: 'Ignore whitespace' },
+  { option: 'ignorePunctuation', label: 'Ignore punctuation' },
+];
+
+export const TextDiffSettings: React.FC<TextDiffSettingsProps> = ({ options, onOptionsChange }) => {
+  const { textDiff } = options;
+  const update = (change: Partial<TextDiffOptions>) => onOptionsChange({ ...options, textDiff: { ...textDiff, ...change } });
+
+  return (
+    <div className="my-6 flex flex-wrap justify-center items-center gap-x-6 gap-y-2">
+      <div className="flex items-center">
+        <label htmlFor="diff-granularity" className="text-sm font-medium text-gray-700 mr-2">Highlight changes by</label>
+        <select
+          id="diff-granularity"
+          value={textDiff.granularity}
+          onChange={(e) => update({ granularity: e.target.value as DiffGranularity })}
+          className="rounded-md border-gray-300 text-sm focus:ring-[#4A70A9] focus:border-[#4A70A9]"
+        >
+          {(Object.keys(GRANULARITY_LABELS) as DiffGranularity[]).map(granularity => (
+            <option key={granularity} value={granularity}>{GRANULARITY_LABELS[granularity]}</option>
+          ))}
+        </select>
+      </div>
+      {IGNORE_OPTIONS.map(({ option, label }) => (
+        <label key={option} className="inline-flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={textDiff[option]}
+            onChange={(e) => update({ [option]: e.target.checked })}
+            className="h-4 w-4 mr-2 rounded border-gray-300 text-[#4A70A9] focus:ring-[#4A70A9]"
+          />
+          {label}
+        </label>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import { FileUploader } from './FileUploader';
+import { ComparisonModeSelector } from './ComparisonModeSelector';
+import { ColumnSchemaSettings } from './ColumnSchemaSettings';
+import { TextDiffSettings } from './TextDiffSettings';
+import { IgnoreRulesSettings } from './IgnoreRulesSettings';
+import { ThreeWayResultDisplay } from './ThreeWayResultDisplay';
+import { ComparisonProgress } from './ComparisonProgress';
+import { parseTestCaseFile } from '../services/excelParser';
+import { ComparisonMode, ComparisonOptions, ThreeWayResult } from '../types';
+import { useDiffTask } from '../hooks/useDiffTask';
+
+interface ThreeWayComparisonProps {
+  mode: ComparisonMode;
+  onModeChange: (mode: ComparisonMode) => void;
+  options: ComparisonOptions;
+  onOptionsChange: (options: ComparisonOptions) => void;
+}
+
+type FileSlot = 'base' | 'a' | 'b';
+
+const SLOT_LABELS: Record<FileSlot, string> = {
+  base: 'Base Version',
+  a: 'Version A',
+  b: 'Version B',
+};
+
+const SLOT_DESCRIPTIONS: Record<FileSlot, string> = {
+  base: 'base',
+  a: 'version A',
+  b: 'version B',
+};
+
+export const ThreeWayComparison: React.FC<ThreeWayComparisonProps> = ({ mode, onModeChange, options, onOptionsChange }) => {
+  const [files, setFiles] = useState<Record<FileSlot, File | null>>({ base: null, a: null, b: null });
+  const [result, setResult] = useState<ThreeWayResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [availableHeaders, setAvailableHeaders] = useState<string[]>([]);
+  const hasCompared = useRef(false);
+  const { progress, run: runDiffJob, cancel: cancelComparison } = useDiffTask();
+  const isLoading = progress !== null;
+
+  const hasAllFiles = !!(files.base && files.a && files.b);
+
+  const handleCompare = useCallback(async () => {
+    if (!files.base || !files.a || !files.b) {
+      setError("Please upload the base version and both edited versions.");
+      return;
+    }
+
+    setError(null);
+    setResult(null);
+
+    try {
+      const threeWayResult = await runDiffJob(async ({ report, runTask }) => {
+        const parse = (slot: FileSlot) => parseTestCaseFile(files[slot], options.schema, options.encoding).catch(e => {
+          throw new Error(`${e.message} in ${SLOT_DESCRIPTIONS[slot]} file: ${files[slot].name}`);
+        });
+        report('Reading files', 0, 3);
+        const baseRawData = await parse('base');
+        report('Reading files', 1, 3);
+        const versionARawData = await parse('a');
+        report('Reading files', 2, 3);
+        const versionBRawData = await parse('b');
+
+        return runTask({ kind: 'threeWay', baseRawData, versionARawData, versionBRawData, mode, options }, 'Pairing rows');
+      });
+      if (threeWayResult) {
+        setResult(threeWayResult);
+        setAvailableHeaders(threeWayResult.headers);
+        hasCompared.current = true;
+      }
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "An unknown error occurred during comparison.");
+      hasCompared.current = false;
+    }
+  }, [files, mode, options, runDiffJob]);
+
+  useEffect(() => {
+    if (hasCompared.current) {
+      handleCompare();
+    }
+  }, [mode, options, handleCompare]);
+
+  const handleFileSelect = (slot: FileSlot) => (file: File) => {
+    cancelComparison();
+    setFiles(prev => ({ ...prev, [slot]: file }));
+    setResult(null);
+    setError(null);
+    hasCompared.current = false;
+  };
+
+  return (
+    <>
+      <div className="max-w-5xl mx-auto bg-white p-6 md:p-8 rounded-2xl shadow-lg border border-gray-200">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+          {(Object.keys(SLOT_LABELS) as FileSlot[]).map(slot => (
+            <FileUploader
+              key={slot}
+              id={`three-way-${slot}-file`}
+              label={SLOT_LABELS[slot]}
+              onFileSelect={handleFileSelect(slot)}
+              fileName={files[slot]?.name}
+            />
+          ))}
+        </div>
+
+        <ComparisonModeSelector mode={mode} onModeChange={onModeChange} options={options} onOptionsChange={onOptionsChange} />
+        <TextDiffSettings options={options} onOptionsChange={onOptionsChange} />
+        <IgnoreRulesSettings options={options} onOptionsChange={onOptionsChange} />
+        <ColumnSchemaSettings options={options} onOptionsChange={onOptionsChange} availableHeaders={availableHeaders} />
+
+        <div className="text-center">
+          {isLoading ? (
+            <ComparisonProgress progress={progress} onCancel={cancelComparison} />
+          ) : (
+            <button
+              onClick={handleCompare}
+              disabled={!hasAllFiles}
+              className="w-full md:w-auto inline-flex items-center justify-center px-8 py-3 bg-[#4A70A9] text-white font-semibold rounded-lg shadow-md hover:bg-[#3e6094] disabled:bg-[#a0b3ce] disabled:cursor-not-allowed transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#4A70A9]"
+            >
+              Compare Three Versions
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mt-6 p-4 bg-red-100 border border-red-400 text-red-700 rounded-lg" role="alert">
+            <p className="font-bold">Error</p>
+            <p>{error}</p>
+          </div>
+        )}
+      </div>
+
+      {result && (
+        <div className="mt-12">
+          {/* All three files are versions of one TC, so the TC id alone would not tell them apart. */}
+          <ThreeWayResultDisplay
+            result={result}
+            baseFileName={files.base?.name}
+            versionAFileName={files.a?.name}
+            versionBFileName={files.b?.name}
+          />
+        </div>
+      )}
+    </>
+  );
+};
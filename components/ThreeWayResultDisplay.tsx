@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { ChangeType, MergeStatus, RowData, TextDiffOptions, ThreeWayResult, ThreeWayRow } from '../types';
+import { DownloadIcon } from './icons';
+import { TextDiff } from './TextDiff';
+import { CategoryLevel, getCategoryLevel, TableColumns } from '../services/comparisonEngine';
+import { stripColorStyles } from '../services/htmlUtils';
+import { countMergeStatuses } from '../services/threeWayMerge';
+import { buildMergedHtml } from '../services/mergeExporter';
+import { downloadTextFile, toFileNameSegment } from '../services/download';
+
+interface ThreeWayResultDisplayProps {
+  result: ThreeWayResult;
+  baseFileName?: string;
+  versionAFileName?: string;
+  versionBFileName?: string;
+}
+
+const STATUS_STYLES: Record<MergeStatus, { label: string; rowClass: string; badgeClass: string }> = {
+  [MergeStatus.UNCHANGED]: { label: 'Unchanged', rowClass: 'bg-white', badgeClass: 'bg-gray-100 text-gray-700 border-gray-200' },
+  [MergeStatus.CHANGED_IN_A]: { label: 'Changed in A', rowClass: 'bg-sky-50/70', badgeClass: 'bg-sky-100 text-sky-800 border-sky-200' },
+  [MergeStatus.CHANGED_IN_B]: { label: 'Changed in B', rowClass: 'bg-teal-50/70', badgeClass: 'bg-teal-100 text-teal-800 border-teal-200' },
+  [MergeStatus.CHANGED_IN_BOTH]: { label: 'Same change in both', rowClass: 'bg-amber-50/70', badgeClass: 'bg-amber-100 text-amber-800 border-amber-200' },
+  [MergeStatus.CONFLICT]: { label: 'Conflict', rowClass: 'bg-red-50/70', badgeClass: 'bg-red-600 text-white border-red-700' },
+};
+
+const CHANGE_LABELS: Record<ChangeType, string> = {
+  [ChangeType.ADDED]: 'added',
+  [ChangeType.DELETED]: 'deleted',
+  [ChangeType.MODIFIED]: 'modified',
+  [ChangeType.UNCHANGED]: 'unchanged',
+  [ChangeType.MOVED]: 'moved',
+};
+
+const getCategoryClass = (row: ThreeWayRow, subCategoryPatterns: string[], columns: TableColumns): string => {
+    // A changed category row keeps its status colour so it is not mistaken for a plain heading.
+    if (row.status !== MergeStatus.UNCHANGED) return '';
+    switch (getCategoryLevel(row.base, subCategoryPatterns, columns)) {
+        case CategoryLevel.SUB:
+            return 'bg-[#31694E] text-white';
+        case CategoryLevel.PRIMARY:
+            return 'bg-[#4A70A9] text-white';
+        default:
+            return '';
+    }
+};
+
+interface VersionCellProps {
+  row: RowData | null;
+  base: RowData | null;
+  change: ChangeType | null;
+  columns: string[];
+  textDiff: TextDiffOptions;
+  className: string;
+}
+
+const VersionCell: React.FC<VersionCellProps> = ({ row, base, change, columns, textDiff, className }) => {
+  if (!row) {
+    return (
+      <td className={className}>
+        {change === ChangeType.DELETED && <span className="italic text-red-700">Deleted</span>}
+      </td>
+    );
+  }
+  const showDiff = !!base && (change === ChangeType.MODIFIED || change === ChangeType.MOVED);
+  return (
+    <td className={className}>
+      {change === ChangeType.MOVED && (
+        <span className="mb-1 inline-block px-2 py-0.5 text-xs font-semibold rounded-full bg-violet-100 text-violet-800 border border-violet-200">Moved</span>
+      )}
+      {columns.map(column => {
+        const revisedHtml = stripColorStyles(row[column] ?? '');
+        const baseHtml = stripColorStyles(base?.[column] ?? '');
+        return (
+          <div key={column} className="mb-2 last:mb-0">
+            {columns.length > 1 && <div className="text-[10px] font-semibold uppercase tracking-wider opacity-60">{column}</div>}
+            {showDiff && baseHtml !== revisedHtml ? (
+              <TextDiff originalText={baseHtml} revisedText={revisedHtml} options={textDiff} />
+            ) : (
+              <span dangerouslySetInnerHTML={{ __html: revisedHtml }}/>
+            )}
+          </div>
+        );
+      })}
+    </td>
+  );
+};
+
+export const ThreeWayResultDisplay: React.FC<ThreeWayResultDisplayProps> = ({
+  result,
+  baseFileName = 'Base',
+  versionAFileName = 'Version A',
+  versionBFileName = 'Version B',
+}) => {
+  const { rows, keyColumn, comparedColumns } = result;
+  const [showOnlyChanges, setShowOnlyChanges] = useState(false);
+
+  const counts = countMergeStatuses(rows);
+  const filteredRows = showOnlyChanges ? rows.filter(row => row.status !== MergeStatus.UNCHANGED) : rows;
+
+  const handleDownloadMerged = () => {
+    const html = buildMergedHtml({ result, baseFileName, versionAFileName, versionBFileName });
+    const fileName = `merged_${toFileNameSegment(versionAFileName)}_${toFileNameSegment(versionBFileName)}.html`;
+    downloadTextFile(fileName, html, 'text/html');
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-200 overflow-hidden">
+      <div className="p-6 border-b border-gray-200">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-gray-800">Three-Way Comparison</h2>
+          <div className="flex items-center gap-6">
+            <div className="relative flex items-center">
+              <input
+                type="checkbox"
+                id="three-way-show-only-changes"
+                checked={showOnlyChanges}
+                onChange={(e) => setShowOnlyChanges(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-[#4A70A9] focus:ring-[#4A70A9]"
+              />
+              <label htmlFor="three-way-show-only-changes" className="ml-2 block text-sm font-medium text-gray-700">
+                Show only changes
+              </label>
+            </div>
+            <button
+              type="button"
+              onClick={handleDownloadMerged}
+              className="inline-flex items-center px-4 py-2 text-sm font-semibold text-[#4A70A9] border border-[#4A70A9] rounded-lg hover:bg-[#4A70A9]/10 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#4A70A9]"
+            >
+              <DownloadIcon className="h-4 w-4 mr-2" />
+              Download merged HTML
+            </button>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-3 mt-4 text-sm">
+          {Object.values(MergeStatus).filter(status => status !== MergeStatus.UNCHANGED).map(status => (
+            <span key={status} className={`px-3 py-1 rounded-lg border font-semibold ${STATUS_STYLES[status].badgeClass}`}>
+              {counts[status]} {STATUS_STYLES[status].label.toLowerCase()}
+            </span>
+          ))}
+        </div>
+        {counts[MergeStatus.CONFLICT] > 0 && (
+          <p className="mt-3 text-sm text-red-700">
+            Conflicting steps are written to the merged file as both versions between &lt;&lt;&lt;&lt;&lt;&lt;&lt; and &gt;&gt;&gt;&gt;&gt;&gt;&gt; rows. Resolve them by hand before using the file.
+          </p>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full">
+          <thead className="bg-gray-100">
+            <tr>
+              <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wider w-[2%] border-r border-gray-200">{keyColumn}</th>
+              <th scope="col" className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider w-[30%] border-r border-gray-200">Base_<span className="font-bold">{baseFileName}</span></th>
+              <th scope="col" className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider w-[30%] border-r border-gray-200">A_<span className="font-bold">{versionAFileName}</span></th>
+              <th scope="col" className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider w-[30%] border-r border-gray-200">B_<span className="font-bold">{versionBFileName}</span></th>
+              <th scope="col" className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider w-[8%]">Status</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white">
+            {filteredRows.map(row => {
+              const categoryClass = getCategoryClass(row, result.subCategoryPatterns, result);
+              const { label, rowClass, badgeClass } = STATUS_STYLES[row.status];
+              const keyRow = row.merged ?? row.a ?? row.b ?? row.base;
+              const baseCellClass = `px-4 py-3 text-sm border-b border-r border-gray-200 whitespace-pre-wrap break-words align-top ${categoryClass ? '' : 'text-gray-800'}`;
+              return (
+                <tr key={row.key} className={categoryClass || rowClass}>
+                  <td
+                    className={`${baseCellClass.replace('align-top', 'align-middle')} text-center font-bold`}
+                    dangerouslySetInnerHTML={{ __html: stripColorStyles(keyRow?.[keyColumn] ?? '') }}
+                  />
+                  <VersionCell row={row.base} base={null} change={null} columns={comparedColumns} textDiff={result.textDiff} className={baseCellClass} />
+                  <VersionCell row={row.a} base={row.base} change={row.aChange} columns={comparedColumns} textDiff={result.textDiff} className={baseCellClass} />
+                  <VersionCell row={row.b} base={row.base} change={row.bChange} columns={comparedColumns} textDiff={result.textDiff} className={baseCellClass} />
+                  <td className="px-4 py-3 text-sm border-b border-gray-200 align-middle">
+                    <span className={`inline-block px-2 py-0.5 text-xs font-semibold rounded-full border whitespace-nowrap ${badgeClass}`}>{label}</span>
+                    {row.status !== MergeStatus.UNCHANGED && (
+                      <div className={`mt-1 text-xs whitespace-nowrap ${categoryClass ? '' : 'text-gray-500'}`}>
+                        A: {row.aChange ? CHANGE_LABELS[row.aChange] : '—'}, B: {row.bChange ? CHANGE_LABELS[row.bChange] : '—'}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {filteredRows.length === 0 && (
+        <p className="p-6 text-center text-gray-500">{showOnlyChanges ? "Neither version changed the base." : "No data to display."}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ChangeReview, ReviewDecision } from '../types';
+import { getReview, getReviewStorageKey, loadReviewerName, loadReviews, ReviewMap, saveReviewerName, saveReviews, UNNAMED_REVIEWER } from '../services/changeReview';
+
+/**
+ * The review of one pair of documents, saved to browser storage under `storageKey` on every change.
+ * Without a key (contents not read yet) reviews are kept in memory only.
+ */
+export const useChangeReviews = (storageKey: string | null) => {
+  const [reviews, setReviews] = useState<ReviewMap>(() => storageKey ? loadReviews(storageKey) : {});
+  const [reviewer, setReviewerState] = useState(loadReviewerName);
+  // Read through a ref so the row callbacks stay the same while the name is typed.
+  const reviewerRef = useRef(reviewer);
+  reviewerRef.current = reviewer;
+
+  useEffect(() => {
+    setReviews(storageKey ? loadReviews(storageKey) : {});
+  }, [storageKey]);
+
+  const updateReview = useCallback((changeId: string, update: (review: ChangeReview) => ChangeReview) => {
+    setReviews(previous => {
+      const next = { ...previous, [changeId]: update(getReview(previous, changeId)) };
+      if (storageKey) saveReviews(storageKey, next);
+      return next;
+    });
+  }, [storageKey]);
+
+  /** Choosing the current decision again withdraws it. */
+  const decide = useCallback((changeId: string, decision: ReviewDecision) => {
+    updateReview(changeId, review => review.decision === decision
+      ? { comments: review.comments, decision: null }
+      : { ...review, decision, decidedBy: reviewerRef.current.trim() || UNNAMED_REVIEWER, decidedAt: new Date().toISOString() });
+  }, [updateReview]);
+
+  const addComment = useCallback((changeId: string, text: string) => {
+    updateReview(changeId, review => ({
+      ...review,
+      comments: [...review.comments, { author: reviewerRef.current.trim() || UNNAMED_REVIEWER, text, createdAt: new Date().toISOString() }],
+    }));
+  }, [updateReview]);
+
+  const setReviewer = useCallback((name: string) => {
+    setReviewerState(name);
+    saveReviewerName(name);
+  }, []);
+
+  return { reviews, reviewer, setReviewer, decide, addComment };
+};
+
+/** The storage key of the review of two files; null until both are chosen and read. */
+export const useReviewStorageKey = (originalFile: Blob | null | undefined, revisedFile: Blob | null | undefined): string | null => {
+  const [storageKey, setStorageKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    setStorageKey(null);
+    if (!originalFile || !revisedFile) return;
+    let isCurrent = true;
+    getReviewStorageKey(originalFile, revisedFile)
+      .then(key => { if (isCurrent) setStorageKey(key); })
+      .catch(e => console.warn("Could not read the files to restore their review:", e));
+    return () => { isCurrent = false; };
+  }, [originalFile, revisedFile]);
+
+  return storageKey;
+};
@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ComparisonCancelledError, DiffTask, DiffTaskResult } from '../services/diffTasks';
+import { runDiffTask, RunningDiffTask } from '../services/diffWorkerClient';
+
+export interface ComparisonProgressState {
+  label: string;
+  completed: number;
+  /** 0 when the step has no measurable progress. */
+  total: number;
+}
+
+export interface DiffJobContext {
+  report: (label: string, completed: number, total: number) => void;
+  /** Runs a task in the diff worker, reporting its progress under `label` when one is given. */
+  runTask: <T extends DiffTask>(task: T, label?: string) => Promise<DiffTaskResult<T>>;
+}
+
+/**
+ * Runs comparison jobs one at a time: starting a job cancels the one still running, and a cancelled
+ * or superseded job resolves to null instead of reporting an error. Unmounting cancels the job.
+ */
+export const useDiffTask = () => {
+  const [progress, setProgress] = useState<ComparisonProgressState | null>(null);
+  const currentJob = useRef<{ cancel: () => void } | null>(null);
+
+  const cancel = useCallback(() => {
+    currentJob.current?.cancel();
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  const run = useCallback(async <R,>(job: (context: DiffJobContext) => Promise<R>): Promise<R | null> => {
+    currentJob.current?.cancel();
+
+    let isCancelled = false;
+    let runningTask: RunningDiffTask<unknown> | null = null;
+    const handle = {
+      cancel: () => {
+        isCancelled = true;
+        runningTask?.cancel();
+      },
+    };
+    currentJob.current = handle;
+    const isCurrent = () => currentJob.current === handle && !isCancelled;
+
+    const context: DiffJobContext = {
+      report: (label, completed, total) => {
+        if (isCurrent()) setProgress({ label, completed, total });
+      },
+      runTask: (task, label) => {
+        if (isCancelled) return Promise.reject(new ComparisonCancelledError());
+        const running = runDiffTask(task, label ? (completed, total) => context.report(label, completed, total) : undefined);
+        runningTask = running;
+        return running.promise;
+      },
+    };
+
+    context.report('Starting', 0, 0);
+    try {
+      const result = await job(context);
+      return isCurrent() ? result : null;
+    } catch (e) {
+      if (!isCurrent()) return null;
+      throw e;
+    } finally {
+      if (currentJob.current === handle) {
+        currentJob.current = null;
+        setProgress(null);
+      }
+    }
+  }, []);
+
+  return { progress, run, cancel };
+};
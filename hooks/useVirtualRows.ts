@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+export interface VirtualRowsOptions {
+  /** Stable identity of each row, so measured heights survive filtering. */
+  keys: Array<string | number>;
+  /** Height assumed for rows that have not been rendered yet. */
+  estimatedRowHeight: number;
+  /** Rows rendered above and below the viewport to hide blank space while scrolling. */
+  overscan?: number;
+}
+
+export interface VirtualRowsRange {
+  startIndex: number;
+  endIndex: number;
+  paddingTop: number;
+  paddingBottom: number;
+}
+
+/** Index of the last row whose top edge is at or above `offset`. */
+const findRowAt = (offsets: number[], offset: number): number => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (offsets[middle] <= offset) low = middle;
+    else high = middle - 1;
+  }
+  return Math.max(0, low);
+};
+
+/**
+ * Windowing for a scrollable list of variable-height rows: only the rows in (or near) the
+ * viewport are rendered, and padding stands in for the rest. Row heights start as an estimate and
+ * are replaced by the measured height once a row has been on screen.
+ */
+export const useVirtualRows = ({ keys, estimatedRowHeight, overscan = 8 }: VirtualRowsOptions) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const heights = useRef(new Map<string, number>());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+
+  // offsets[i] is the top of row i; the final entry is the total height.
+  const offsets = useMemo(() => {
+    const result = new Array<number>(keys.length + 1);
+    result[0] = 0;
+    keys.forEach((key, index) => {
+      result[index + 1] = result[index] + (heights.current.get(String(key)) ?? estimatedRowHeight);
+    });
+    return result;
+  }, [keys, estimatedRowHeight, measureVersion]);
+
+  const offsetsRef = useRef(offsets);
+  offsetsRef.current = offsets;
+  const indexByKey = useMemo(() => new Map(keys.map((key, index) => [String(key), index])), [keys]);
+  const indexByKeyRef = useRef(indexByKey);
+  indexByKeyRef.current = indexByKey;
+
+  const observer = useMemo(() => {
+    if (typeof ResizeObserver === 'undefined') return null;
+    return new ResizeObserver(entries => {
+      const container = scrollRef.current;
+      let changed = false;
+      for (const entry of entries) {
+        const element = entry.target as HTMLElement;
+        const key = element.dataset.virtualKey;
+        if (key === undefined) continue;
+        const height = element.offsetHeight;
+        const previous = heights.current.get(key) ?? estimatedRowHeight;
+        if (height === 0 || height === previous) continue;
+        heights.current.set(key, height);
+        changed = true;
+        // A row above the viewport changing height would otherwise shift everything on screen.
+        const index = indexByKeyRef.current.get(key);
+        if (container && index !== undefined && offsetsRef.current[index] < container.scrollTop) {
+          container.scrollTop += height - previous;
+        }
+      }
+      if (changed) setMeasureVersion(version => version + 1);
+    });
+  }, [estimatedRowHeight]);
+
+  useEffect(() => () => observer?.disconnect(), [observer]);
+
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const update = () => setViewport({ scrollTop: container.scrollTop, height: container.clientHeight });
+    update();
+    container.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      container.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, []);
+
+  /** Ref callback for a rendered row; the element must carry `data-virtual-key`. */
+  const measureRow = useCallback((element: HTMLElement | null) => {
+    if (!element || !observer) return;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, [observer]);
+
+  const totalHeight = offsets[keys.length];
+  const firstVisible = findRowAt(offsets, viewport.scrollTop);
+  const lastVisible = findRowAt(offsets, viewport.scrollTop + viewport.height);
+  const startIndex = Math.max(0, firstVisible - overscan);
+  const endIndex = Math.min(keys.length, lastVisible + overscan + 1);
+  const range: VirtualRowsRange = {
+    startIndex,
+    endIndex,
+    paddingTop: offsets[startIndex],
+    paddingBottom: totalHeight - offsets[endIndex],
+  };
+
+  const scrollToKey = useCallback((key: string | number) => {
+    const container = scrollRef.current;
+    const index = indexByKeyRef.current.get(String(key));
+    if (!container || index === undefined) return;
+    const top = offsetsRef.current[index];
+    const height = offsetsRef.current[index + 1] - top;
+    container.scrollTo({ top: Math.max(0, top + height / 2 - container.clientHeight / 2), behavior: 'smooth' });
+  }, []);
+
+  return { scrollRef, measureRow, range, scrollTop: viewport.scrollTop, firstVisibleIndex: firstVisible, scrollToKey };
+};
@@ -0,0 +1,115 @@
+import { BatchEntry, BatchStatus, ChangeType, ComparisonOutput } from '../types';
+import { extractTcPattern } from './comparisonEngine';
+import { ComparisonCancelledError } from './diffTasks';
+import { detectFileFormat } from './excelParser';
+
+export interface NamedFile {
+  name: string;
+}
+
+export interface BatchFilePair<F extends NamedFile> {
+  tcId: string;
+  original: F | null;
+  revised: F | null;
+  error?: string;
+}
+
+/**
+ * Pairing key for a test case file: the `TC-<n>.<n>` id when the name has one,
+ * otherwise the file name without its extension.
+ */
+export const getTcId = (fileName: string): string => {
+  const tcId = extractTcPattern(fileName) ?? fileName;
+  return tcId !== fileName ? tcId : fileName.replace(/\.[^.]+$/, '');
+};
+
+const groupByTcId = <F extends NamedFile>(files: F[]): Map<string, F[]> => {
+  const groups = new Map<string, F[]>();
+  for (const file of files) {
+    if (!detectFileFormat(file.name)) continue;
+    const tcId = getTcId(file.name);
+    groups.set(tcId, [...(groups.get(tcId) ?? []), file]);
+  }
+  return groups;
+};
+
+const describeDuplicates = (side: string, tcId: string, files: NamedFile[]): string | undefined => {
+  if (files.length <= 1) return undefined;
+  return `Multiple ${side} files match ${tcId}: ${files.map(f => f.name).join(', ')}.`;
+};
+
+/**
+ * Pairs the files of two folders (or two file selections) by TC id. Unsupported file types are skipped;
+ * ids that appear more than once on the same side are reported on the pair instead of being guessed.
+ */
+export const pairFilesByTcId = <F extends NamedFile>(originalFiles: F[], revisedFiles: F[]): BatchFilePair<F>[] => {
+  const originals = groupByTcId(originalFiles);
+  const reviseds = groupByTcId(revisedFiles);
+  const tcIds = Array.from(new Set([...originals.keys(), ...reviseds.keys()]))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+  return tcIds.map(tcId => {
+    const originalGroup = originals.get(tcId) ?? [];
+    const revisedGroup = reviseds.get(tcId) ?? [];
+    const error = describeDuplicates('original', tcId, originalGroup) ?? describeDuplicates('revised', tcId, revisedGroup);
+    return {
+      tcId,
+      original: originalGroup[0] ?? null,
+      revised: revisedGroup[0] ?? null,
+      error,
+    };
+  });
+};
+
+/**
+ * Compares every pair in turn. A file that fails to parse marks only its own entry as an error,
+ * so one broken document does not abort the whole batch; cancelling does.
+ */
+export const compareBatch = async <F extends NamedFile>(
+  pairs: BatchFilePair<F>[],
+  parseFile: (file: F) => Promise<any[][]>,
+  compare: (originalRawData: any[][], revisedRawData: any[][]) => Promise<ComparisonOutput>,
+  onProgress?: (completed: number, total: number) => void
+): Promise<BatchEntry[]> => {
+  const entries: BatchEntry[] = [];
+
+  for (const pair of pairs) {
+    const entry: BatchEntry = {
+      tcId: pair.tcId,
+      originalFileName: pair.original?.name,
+      revisedFileName: pair.revised?.name,
+      status: BatchStatus.ERROR,
+    };
+
+    if (pair.error) {
+      entry.error = pair.error;
+    } else {
+      try {
+        const originalRawData = pair.original ? await parseFile(pair.original).catch(e => {
+          throw new Error(`${e.message} in original file: ${pair.original.name}`);
+        }) : [];
+        const revisedRawData = pair.revised ? await parseFile(pair.revised).catch(e => {
+          throw new Error(`${e.message} in revised file: ${pair.revised.name}`);
+        }) : [];
+
+        entry.output = await compare(originalRawData, revisedRawData);
+        if (!pair.original) {
+          entry.status = BatchStatus.ADDED;
+        } else if (!pair.revised) {
+          entry.status = BatchStatus.REMOVED;
+        } else {
+          const hasChanges = entry.output.result.rows.some(p => p.status !== ChangeType.UNCHANGED);
+          entry.status = hasChanges ? BatchStatus.MODIFIED : BatchStatus.UNCHANGED;
+        }
+      } catch (e) {
+        if (e instanceof ComparisonCancelledError) throw e;
+        entry.error = e instanceof Error ? e.message : String(e);
+      }
+    }
+
+    entries.push(entry);
+    onProgress?.(entries.length, pairs.length);
+  }
+
+  return entries;
+};
@@ -0,0 +1,61 @@
+// Category rows whose title matches one of these are sub-categories of the primary category above them.
+export const DEFAULT_SUB_CATEGORY_PATTERNS = ["Full screen mode", "Test with"];
+
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/;
+const compiledPatterns = new Map<string, RegExp | null>();
+
+/** True for patterns written as /expression/flags. */
+export const isRegexPattern = (pattern: string): boolean => REGEX_PATTERN.test(pattern);
+
+/** The expression of a /expression/flags pattern, without the g and y flags; null when it does not compile. */
+export const compilePattern = (pattern: string): RegExp | null => {
+  if (!compiledPatterns.has(pattern)) {
+    const match = pattern.match(REGEX_PATTERN);
+    let regex: RegExp | null = null;
+    if (match) {
+      try {
+        // Stateful flags would make repeated tests alternate between matching and not.
+        regex = new RegExp(match[1], match[2].replace(/[gy]/g, ''));
+      } catch {
+        regex = null;
+      }
+    }
+    compiledPatterns.set(pattern, regex);
+  }
+  return compiledPatterns.get(pattern) ?? null;
+};
+
+/**
+ * A pattern is either text that must appear in the category title (case-sensitive, as the old
+ * built-in rules were) or a regular expression written as /expression/flags.
+ */
+export const matchesCategoryPattern = (title: string, pattern: string): boolean => {
+  if (isRegexPattern(pattern)) {
+    return compilePattern(pattern)?.test(title) ?? false;
+  }
+  return title.includes(pattern);
+};
+
+export const isSubCategoryTitle = (title: string, patterns: string[]): boolean =>
+  patterns.some(pattern => matchesCategoryPattern(title, pattern));
+
+/**
+ * Patterns are edited one per line. Lines that look like a regular expression but do not compile
+ * are reported instead of being kept.
+ */
+export const parseCategoryPatterns = (text: string): { patterns: string[]; errors: string[] } => {
+  const patterns: string[] = [];
+  const errors: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const pattern = line.trim();
+    if (!pattern) continue;
+    if (isRegexPattern(pattern) && !compilePattern(pattern)) {
+      errors.push(`"${pattern}" is not a valid regular expression.`);
+    } else {
+      patterns.push(pattern);
+    }
+  }
+  return { patterns, errors };
+};
+
+export const formatCategoryPatterns = (patterns: string[]): string => patterns.join('\n');
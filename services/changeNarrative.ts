@@ -0,0 +1,235 @@
+import { ChangeType, ComparisonResult, ComparisonRowPair, RowData } from '../types';
+import { CategoryLevel, getCategoryLevel, getCleanTextContent, isSameColumnText } from './comparisonEngine';
+import { CATEGORY_TITLE_COLUMN } from './columnSchema';
+
+export interface SectionChanges {
+  /** Row key of the section's category row; undefined for steps before the first category row. */
+  key?: string | number;
+  /** "Primary" or "Primary › Sub-category"; empty for steps before the first category row. */
+  title: string;
+  /** Set when the category row itself was added, removed or renamed. */
+  status: ChangeType.ADDED | ChangeType.DELETED | ChangeType.MODIFIED | null;
+  previousTitle?: string;
+  added: string[];
+  removed: string[];
+  /** Steps that moved into this section, with the section they came from. */
+  movedIn: Array<{ step: string; from: string }>;
+  /** Step labels per compared column whose text changed. */
+  changedColumns: Record<string, string[]>;
+  /** Steps whose key column changed, such as a step renumbered from 3 to 2. */
+  renumbered: Array<{ from: string; to: string }>;
+  /** Steps whose markup changed but whose text did not. */
+  formattingOnly: string[];
+  /** Every changed row in the section (moves at their new position), in document order. */
+  changedRows: ComparisonRowPair[];
+}
+
+export interface ChangeNarrative {
+  sections: SectionChanges[];
+  /** Number of steps whose text changed, per compared column. */
+  columnTotals: Record<string, number>;
+  comparedColumns: string[];
+  totalSections: number;
+  hasChanges: boolean;
+}
+
+const NO_CHANGES_TEXT = "No functional changes were detected between the two files.";
+const MAX_LISTED_STEPS = 8;
+
+const normalizeText = (html: unknown): string => getCleanTextContent(String(html ?? '')).replace(/\s+/g, ' ');
+
+const getCategoryTitle = (row: RowData | null): string => normalizeText(row?.[CATEGORY_TITLE_COLUMN]);
+
+/** Steps are named by their key ("step 4"); unnumbered rows by the start of their first compared column. */
+const getStepLabel = (row: RowData | null, result: ComparisonResult): string => {
+  const key = normalizeText(row?.[result.keyColumn]);
+  if (key) return key;
+  const text = normalizeText(row?.[result.comparedColumns[0]]);
+  return `"${text.length > 40 ? `${text.slice(0, 40)}…` : text}"`;
+};
+
+const createSection = (title: string, key?: string | number): SectionChanges => ({
+  key,
+  title,
+  status: null,
+  added: [],
+  removed: [],
+  movedIn: [],
+  changedColumns: {},
+  renumbered: [],
+  formattingOnly: [],
+  changedRows: [],
+});
+
+const hasSectionChanges = (section: SectionChanges): boolean =>
+  section.status !== null
+  || section.added.length > 0
+  || section.removed.length > 0
+  || section.movedIn.length > 0
+  || section.renumbered.length > 0
+  || section.formattingOnly.length > 0
+  || Object.keys(section.changedColumns).length > 0;
+
+/**
+ * Groups the changes of a comparison by the category rows that `processRawData` keeps, so a
+ * reader can see which sections of the test case were touched and how. Purely rule-based.
+ */
+export const buildChangeNarrative = (result: ComparisonResult): ChangeNarrative => {
+  const { keyColumn, comparedColumns, textDiff } = result;
+  const sections: SectionChanges[] = [];
+  // Where each row sits, so a moved step can name the section it left even when it left a later one.
+  const sectionByRowKey = new Map<string | number, string>();
+  const columnTotals: Record<string, number> = {};
+  let primaryTitle = '';
+  let current = createSection('');
+  let totalSections = 0;
+
+  const startSection = (pair: ComparisonRowPair, level: CategoryLevel) => {
+    const title = getCategoryTitle(pair.revised ?? pair.original);
+    if (level === CategoryLevel.PRIMARY) primaryTitle = title;
+    current = createSection(level === CategoryLevel.SUB && primaryTitle ? `${primaryTitle} › ${title}` : title, pair.key);
+    if (pair.status === ChangeType.ADDED || pair.status === ChangeType.DELETED) {
+      current.status = pair.status;
+    } else if (pair.status === ChangeType.MODIFIED && getCategoryTitle(pair.original) !== getCategoryTitle(pair.revised)) {
+      current.status = ChangeType.MODIFIED;
+      current.previousTitle = getCategoryTitle(pair.original);
+    }
+    sections.push(current);
+    totalSections++;
+  };
+
+  // Columns are compared the way the engine compared them, so ignored differences are not reported as changes.
+  const isSameText = (pair: ComparisonRowPair, column: string) =>
+    !!pair.original && !!pair.revised && isSameColumnText(pair.original, pair.revised, column, textDiff);
+
+  const recordTextChanges = (pair: ComparisonRowPair, step: string) => {
+    const changed = comparedColumns.filter(column => !isSameText(pair, column));
+    changed.forEach(column => {
+      (current.changedColumns[column] ??= []).push(step);
+      columnTotals[column] = (columnTotals[column] ?? 0) + 1;
+    });
+    return changed.length > 0;
+  };
+
+  const recordRenumbering = (pair: ComparisonRowPair) => {
+    if (comparedColumns.includes(keyColumn) || isSameText(pair, keyColumn)) return false;
+    current.renumbered.push({ from: normalizeText(pair.original?.[keyColumn]), to: normalizeText(pair.revised?.[keyColumn]) });
+    return true;
+  };
+
+  const rowSections = result.rows.map(pair => {
+    const level = getCategoryLevel(pair.revised ?? pair.original, result.subCategoryPatterns, result);
+    if (level) {
+      startSection(pair, level);
+    } else if (sections.length === 0) {
+      sections.push(current);
+    }
+    sectionByRowKey.set(pair.key, current.title);
+    return { pair, section: current, isCategory: level !== null };
+  });
+
+  for (const { pair, section, isCategory } of rowSections) {
+    if (isCategory) continue;
+    current = section;
+    if (pair.status !== ChangeType.UNCHANGED && pair.move?.role !== 'from') current.changedRows.push(pair);
+
+    switch (pair.status) {
+      case ChangeType.ADDED:
+        current.added.push(getStepLabel(pair.revised, result));
+        break;
+      case ChangeType.DELETED:
+        current.removed.push(getStepLabel(pair.original, result));
+        break;
+      case ChangeType.MODIFIED: {
+        const step = getStepLabel(pair.revised, result);
+        // The engine already told text changes from formatting ones; results saved before it did carry no kind.
+        if (pair.modification === 'formatting') {
+          current.formattingOnly.push(step);
+        } else {
+          const renumbered = recordRenumbering(pair);
+          const textChanged = recordTextChanges(pair, step);
+          if (!renumbered && !textChanged && !pair.modification) current.formattingOnly.push(step);
+        }
+        break;
+      }
+      case ChangeType.MOVED:
+        if (pair.move?.role === 'to') {
+          const step = getStepLabel(pair.revised, result);
+          current.movedIn.push({ step, from: sectionByRowKey.get(pair.move.counterpartKey) ?? '' });
+          if (pair.move.edited) recordTextChanges(pair, step);
+        }
+        break;
+    }
+  }
+
+  const changedSections = sections.filter(hasSectionChanges);
+  return {
+    sections: changedSections,
+    columnTotals,
+    comparedColumns,
+    totalSections,
+    hasChanges: result.rows.some(p => p.status !== ChangeType.UNCHANGED),
+  };
+};
+
+const formatList = (items: string[]): string => {
+  if (items.length <= 1) return items.join('');
+  const listed = items.slice(0, MAX_LISTED_STEPS);
+  const rest = items.length - listed.length;
+  if (rest > 0) return `${listed.join(', ')} and ${rest} more`;
+  return `${listed.slice(0, -1).join(', ')} and ${listed[listed.length - 1]}`;
+};
+
+const formatSteps = (steps: string[]): string => `${steps.length === 1 ? 'step' : 'steps'} ${formatList(steps)}`;
+
+/** What changed in a section, e.g. "added steps 4 and 5; Procedure changed in step 2". */
+export const formatSectionChanges = (section: SectionChanges, comparedColumns: string[]): string => {
+  const parts: string[] = [];
+  if (section.status === ChangeType.ADDED) parts.push('new section');
+  else if (section.status === ChangeType.DELETED) parts.push('section removed');
+  else if (section.status === ChangeType.MODIFIED) parts.push(`renamed from "${section.previousTitle}"`);
+  if (section.added.length > 0) parts.push(`added ${formatSteps(section.added)}`);
+  if (section.removed.length > 0) parts.push(`removed ${formatSteps(section.removed)}`);
+  comparedColumns.forEach(column => {
+    const steps = section.changedColumns[column];
+    if (steps) parts.push(`${column} changed in ${formatSteps(steps)}`);
+  });
+  if (section.renumbered.length > 0) {
+    const steps = section.renumbered.map(({ from, to }) => `${from || '(none)'}→${to || '(none)'}`);
+    parts.push(`renumbered ${formatSteps(steps)}`);
+  }
+  if (section.movedIn.length > 0) {
+    const steps = section.movedIn.map(({ step, from }) => from && from !== section.title ? `${step} (from ${from})` : step);
+    parts.push(`moved in ${formatSteps(steps)}`);
+  }
+  if (section.formattingOnly.length > 0) parts.push(`formatting only in ${formatSteps(section.formattingOnly)}`);
+  return parts.join('; ');
+};
+
+/**
+ * Renders the narrative as plain text: an overview line, one line per changed section, and a
+ * closing line that counts changes per compared column so outcome changes are not lost among
+ * procedure edits.
+ */
+export const formatChangeNarrative = (narrative: ChangeNarrative): string => {
+  if (!narrative.hasChanges) return NO_CHANGES_TEXT;
+
+  const { sections, comparedColumns, columnTotals, totalSections } = narrative;
+  const named = sections.filter(section => section.title);
+  const lines: string[] = [];
+  lines.push(totalSections > 0
+    ? `Changes in ${named.length} of ${totalSections} section${totalSections === 1 ? '' : 's'}${named.length > 0 ? `: ${formatList(named.map(section => section.title))}` : ''}.`
+    : 'Changes in a test case without sections.');
+  const untitledName = totalSections > 0 ? 'Before the first section' : 'All steps';
+  sections.forEach(section => lines.push(`- ${section.title || untitledName}: ${formatSectionChanges(section, comparedColumns)}.`));
+
+  const totals = comparedColumns
+    .filter(column => columnTotals[column])
+    .map(column => `${column} in ${columnTotals[column]} step${columnTotals[column] === 1 ? '' : 's'}`);
+  if (totals.length > 0) {
+    lines.push(`Text changed: ${totals.join('; ')}.`);
+  }
+  return lines.join('\n');
+};
+
+export const describeChanges = (result: ComparisonResult): string => formatChangeNarrative(buildChangeNarrative(result));
@@ -0,0 +1,238 @@
+import { ChangeReview, ChangeType, ComparisonResult, ComparisonRowPair, ReviewDecision } from '../types';
+import { getCategoryLevel, getCleanTextContent } from './comparisonEngine';
+import { CATEGORY_TITLE_COLUMN } from './columnSchema';
+import { isRecord } from './jsonData';
+
+export const REVIEW_DECISION_LABELS: Record<ReviewDecision, string> = {
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  'needs-discussion': 'Needs discussion',
+};
+
+/** Reviews keyed by the id of the change (see `getReviewableChanges`). */
+export type ReviewMap = Record<string, ChangeReview>;
+
+/** A change that can be signed off. A moved step is one change, reviewed at its new position. */
+export interface ReviewableChange {
+  id: string;
+  pair: ComparisonRowPair;
+  /** "Step 4", or the title of a category row. */
+  label: string;
+  /** Title of the category the change sits in; empty before the first one. */
+  section: string;
+}
+
+export interface ReviewProgress {
+  total: number;
+  reviewed: number;
+  accepted: number;
+  rejected: number;
+  needsDiscussion: number;
+}
+
+export interface ReviewRecordEntry {
+  changeId: string;
+  status: ChangeType;
+  change: string;
+  section: string;
+  decision: ReviewDecision | null;
+  decidedBy: string | null;
+  decidedAt: string | null;
+  comments: ChangeReview['comments'];
+}
+
+export interface ReviewRecord {
+  originalFile: string;
+  revisedFile: string;
+  exportedAt: string;
+  progress: ReviewProgress;
+  changes: ReviewRecordEntry[];
+}
+
+const STORAGE_PREFIX = 'tc-comparator.review.';
+const REVIEWER_STORAGE_KEY = 'tc-comparator.reviewer';
+export const UNNAMED_REVIEWER = 'Unnamed reviewer';
+
+const EMPTY_REVIEW: ChangeReview = { decision: null, comments: [] };
+
+// FNV-1a: a short, stable fingerprint; collisions only merge the reviews of two changes.
+const fnv1a = (values: Iterable<number>): string => {
+  let hash = 0x811c9dc5;
+  for (const value of values) {
+    hash ^= value;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+const charCodes = function* (text: string) {
+  for (let i = 0; i < text.length; i++) yield text.charCodeAt(i);
+};
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// crypto.subtle only exists on https:// and localhost pages; elsewhere the weaker hash still tells files apart.
+const digestFile = async (file: Blob): Promise<string> => {
+  const content = await file.arrayBuffer();
+  return globalThis.crypto?.subtle
+    ? toHex(await globalThis.crypto.subtle.digest('SHA-256', content)).slice(0, 32)
+    : fnv1a(new Uint8Array(content));
+};
+
+/**
+ * Reviews belong to a pair of documents rather than to file names, so renaming a file keeps its
+ * review and a new revision under the same name starts a fresh one.
+ */
+export const getReviewStorageKey = async (originalFile: Blob, revisedFile: Blob): Promise<string> => {
+  const [original, revised] = await Promise.all([digestFile(originalFile), digestFile(revisedFile)]);
+  return `${STORAGE_PREFIX}${original}.${revised}`;
+};
+
+const isReview = (value: unknown): value is ChangeReview =>
+  isRecord(value) && (value.decision === null || (typeof value.decision === 'string' && value.decision in REVIEW_DECISION_LABELS)) && Array.isArray(value.comments);
+
+export const loadReviews = (storageKey: string): ReviewMap => {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(storageKey) ?? 'null');
+    if (isRecord(saved)) {
+      return Object.fromEntries(Object.entries(saved).filter(([, review]) => isReview(review))) as ReviewMap;
+    }
+  } catch (e) {
+    console.warn("Ignoring an unreadable saved review:", e);
+  }
+  return {};
+};
+
+export const saveReviews = (storageKey: string, reviews: ReviewMap): void => {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(reviews));
+  } catch (e) {
+    console.warn("Could not save the review:", e);
+  }
+};
+
+export const loadReviewerName = (): string => {
+  try {
+    return localStorage.getItem(REVIEWER_STORAGE_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const saveReviewerName = (name: string): void => {
+  try {
+    localStorage.setItem(REVIEWER_STORAGE_KEY, name);
+  } catch (e) {
+    console.warn("Could not save the reviewer name:", e);
+  }
+};
+
+export const getReview = (reviews: ReviewMap, changeId: string): ChangeReview => reviews[changeId] ?? EMPTY_REVIEW;
+
+/**
+ * The changes of a result with ids that survive re-running the comparison: an id is a fingerprint
+ * of the change's status and text, not of its position, so switching mode or columns keeps reviews
+ * of changes that are still there. Identical changes are told apart by their order.
+ */
+export const getReviewableChanges = (result: ComparisonResult): ReviewableChange[] => {
+  const { keyColumn, comparedColumns, subCategoryPatterns } = result;
+  const occurrences = new Map<string, number>();
+  const changes: ReviewableChange[] = [];
+  let section = '';
+
+  result.rows.forEach(pair => {
+    const row = pair.revised ?? pair.original;
+    const categoryLevel = getCategoryLevel(row, subCategoryPatterns, result);
+    const title = categoryLevel ? getCleanTextContent(String(row?.[CATEGORY_TITLE_COLUMN] ?? '')) : '';
+    if (categoryLevel) section = title;
+    if (pair.status === ChangeType.UNCHANGED || pair.move?.role === 'from') return;
+
+    const text = [pair.status, ...[pair.original, pair.revised].flatMap(data =>
+      [keyColumn, ...comparedColumns].map(column => getCleanTextContent(String(data?.[column] ?? '')))
+    )].join('\u0000');
+    const fingerprint = fnv1a(charCodes(text));
+    const occurrence = (occurrences.get(fingerprint) ?? 0) + 1;
+    occurrences.set(fingerprint, occurrence);
+
+    const step = getCleanTextContent(String(row?.[keyColumn] ?? ''));
+    changes.push({
+      id: occurrence > 1 ? `${fingerprint}-${occurrence}` : fingerprint,
+      pair,
+      label: categoryLevel ? title || 'Untitled section' : step ? `Step ${step}` : 'Unnumbered step',
+      section,
+    });
+  });
+  return changes;
+};
+
+export const computeReviewProgress = (changes: ReviewableChange[], reviews: ReviewMap): ReviewProgress => {
+  const progress: ReviewProgress = { total: changes.length, reviewed: 0, accepted: 0, rejected: 0, needsDiscussion: 0 };
+  changes.forEach(({ id }) => {
+    const { decision } = getReview(reviews, id);
+    if (!decision) return;
+    progress.reviewed++;
+    if (decision === 'accepted') progress.accepted++;
+    if (decision === 'rejected') progress.rejected++;
+    if (decision === 'needs-discussion') progress.needsDiscussion++;
+  });
+  return progress;
+};
+
+export const buildReviewRecord = (
+  changes: ReviewableChange[],
+  reviews: ReviewMap,
+  originalFileName: string,
+  revisedFileName: string
+): ReviewRecord => ({
+  originalFile: originalFileName,
+  revisedFile: revisedFileName,
+  exportedAt: new Date().toISOString(),
+  progress: computeReviewProgress(changes, reviews),
+  changes: changes.map(({ id, pair, label, section }) => {
+    const review = getReview(reviews, id);
+    return {
+      changeId: id,
+      status: pair.status,
+      change: label,
+      section,
+      decision: review.decision,
+      decidedBy: review.decision ? review.decidedBy || UNNAMED_REVIEWER : null,
+      decidedAt: review.decision ? review.decidedAt ?? null : null,
+      comments: review.comments,
+    };
+  }),
+});
+
+const escapeMarkdownCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+export const formatReviewMarkdown = (record: ReviewRecord): string => {
+  const { progress } = record;
+  const lines = [
+    `# Review: ${record.originalFile} → ${record.revisedFile}`,
+    '',
+    `Exported ${record.exportedAt}. ${progress.reviewed} of ${progress.total} changes reviewed: ` +
+      `${progress.accepted} accepted, ${progress.rejected} rejected, ${progress.needsDiscussion} need discussion.`,
+    '',
+    '| Change | Section | Type | Decision | Decided by | Decided at |',
+    '| --- | --- | --- | --- | --- | --- |',
+    ...record.changes.map(entry => `| ${[
+      entry.change,
+      entry.section || '—',
+      entry.status,
+      entry.decision ? REVIEW_DECISION_LABELS[entry.decision] : 'Pending',
+      entry.decidedBy ?? '—',
+      entry.decidedAt ?? '—',
+    ].map(escapeMarkdownCell).join(' | ')} |`),
+  ];
+
+  const discussed = record.changes.filter(entry => entry.comments.length > 0);
+  if (discussed.length > 0) {
+    lines.push('', '## Comments');
+    discussed.forEach(entry => {
+      lines.push('', `### ${entry.change}${entry.section ? ` (${entry.section})` : ''}`, '');
+      entry.comments.forEach(comment => lines.push(`- **${comment.author}** (${comment.createdAt}): ${comment.text.replace(/\s*\n\s*/g, ' ')}`));
+    });
+  }
+  return `${lines.join('\n')}\n`;
+};
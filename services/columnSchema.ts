@@ -0,0 +1,65 @@
+import { ColumnSchema } from '../types';
+
+// Category rows are told apart from steps by a title in this column and nothing in the key column.
+export const CATEGORY_TITLE_COLUMN = "Procedure";
+
+export const DEFAULT_COLUMN_SCHEMA: ColumnSchema = {
+  keyColumn: "Step Order",
+  comparedColumns: ["Procedure", "Expected Outcome"],
+  headerAliases: {
+    "Expected Result": "Expected Outcome",
+  },
+};
+
+const collapseWhitespace = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * The columns a table must have to be compared with a schema: the key column, the category title column
+ * and the compared columns. The table is found by these headers.
+ */
+export const getRequiredHeaders = (schema: ColumnSchema): string[] =>
+  Array.from(new Set([schema.keyColumn, CATEGORY_TITLE_COLUMN, ...schema.comparedColumns]));
+
+export const formatRequiredHeaders = (schema: ColumnSchema): string => `"${getRequiredHeaders(schema).join(', ')}"`;
+
+/**
+ * Maps a header cell's text to the name the engine uses for that column: aliases are resolved and the
+ * required headers are matched regardless of case and spacing. Other headers are returned as written.
+ */
+export const canonicalizeHeader = (headerText: string, schema: ColumnSchema): string => {
+  const cleaned = collapseWhitespace(headerText);
+  const lower = cleaned.toLowerCase();
+
+  for (const [alias, target] of Object.entries(schema.headerAliases)) {
+    if (collapseWhitespace(alias).toLowerCase() === lower) {
+      return collapseWhitespace(target);
+    }
+  }
+  return getRequiredHeaders(schema).find(h => h.toLowerCase() === lower) ?? cleaned;
+};
+
+export const hasRequiredHeaders = (headerTexts: string[], schema: ColumnSchema): boolean => {
+  const canonical = headerTexts.map(text => canonicalizeHeader(text, schema));
+  return getRequiredHeaders(schema).every(h => canonical.includes(h));
+};
+
+/**
+ * Aliases are edited as one "Alias = Header" pair per line.
+ */
+export const parseHeaderAliases = (text: string): Record<string, string> => {
+  const aliases: Record<string, string> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const separator = line.indexOf('=');
+    if (separator === -1) continue;
+    const alias = collapseWhitespace(line.slice(0, separator));
+    const target = collapseWhitespace(line.slice(separator + 1));
+    if (alias && target) {
+      aliases[alias] = target;
+    }
+  }
+  return aliases;
+};
+
+export const formatHeaderAliases = (headerAliases: Record<string, string>): string => {
+  return Object.entries(headerAliases).map(([alias, target]) => `${alias} = ${target}`).join('\n');
+};
@@ -0,0 +1,532 @@
+import { ColumnSchema, ComparisonMode, ComparisonOptions, ComparisonOutput, RowData, ChangeType, ComparisonRowPair, DiffSummary, IgnoreRule, ModificationKind, TextDiffOptions } from '../types';
+import { htmlToText } from './htmlUtils';
+import { findCommonSubsequence } from './myersDiff';
+import { parseHtmlString } from './excelParser';
+import { canonicalizeHeader, CATEGORY_TITLE_COLUMN, DEFAULT_COLUMN_SCHEMA, formatRequiredHeaders, hasRequiredHeaders } from './columnSchema';
+import { DEFAULT_SUB_CATEGORY_PATTERNS, isSubCategoryTitle } from './categoryRules';
+import { AUTO_ENCODING } from './textEncoding';
+import { CJK_CHARACTERS, DEFAULT_TEXT_DIFF_OPTIONS, hasIgnoreOptions, isSameCell, isSameText } from './textDiff';
+import { countSuppressedDifferences, removeIgnoredText } from './ignoreRules';
+
+export const getCleanTextContent = (htmlString: string): string => {
+    if (typeof htmlString !== 'string' || !htmlString) return '';
+    return htmlToText(htmlString).trim();
+};
+
+export const extractTcPattern = (fileName: string | undefined): string | undefined => {
+    if (!fileName) return undefined;
+    const match = fileName.match(/TC-\d+\.\d+/);
+    return match ? match[0] : fileName;
+};
+
+/** The columns of a schema that tell category rows from steps; comparison results carry them too. */
+export type TableColumns = Pick<ColumnSchema, 'keyColumn' | 'comparedColumns'>;
+
+/** A category row has a title, and nothing in its key column or in the other compared columns. */
+export const isCategoryRow = (row: RowData, columns: TableColumns = DEFAULT_COLUMN_SCHEMA): boolean => {
+    return !getCleanTextContent(String(row[columns.keyColumn] || ''))
+        && getCleanTextContent(String(row[CATEGORY_TITLE_COLUMN] || '')) !== ''
+        && columns.comparedColumns.every(column => column === CATEGORY_TITLE_COLUMN || !getCleanTextContent(String(row[column] || '')));
+};
+
+export enum CategoryLevel {
+    PRIMARY = 'PRIMARY',
+    SUB = 'SUB',
+}
+
+/**
+ * Classifies a category row as a primary section or, when its title matches one of the sub-category
+ * patterns ("Full screen mode", "Test with ..." by default), a sub-category.
+ * Returns null for test steps and continuation rows.
+ */
+export const getCategoryLevel = (
+    row: RowData | null,
+    subCategoryPatterns: string[] = DEFAULT_SUB_CATEGORY_PATTERNS,
+    columns: TableColumns = DEFAULT_COLUMN_SCHEMA
+): CategoryLevel | null => {
+    if (!row || !isCategoryRow(row, columns)) return null;
+
+    const procedureText = getCleanTextContent(String(row[CATEGORY_TITLE_COLUMN] || ''));
+    return isSubCategoryTitle(procedureText, subCategoryPatterns) ? CategoryLevel.SUB : CategoryLevel.PRIMARY;
+};
+
+export const processRawData = (rawData: any[][], schema: ColumnSchema = DEFAULT_COLUMN_SCHEMA): RowData[] => {
+    if (!rawData || rawData.length === 0) {
+        return [];
+    }
+
+    let headerIndex = -1;
+    let cleanHeaders: string[] = [];
+
+    for(let i = 0; i < rawData.length; i++) {
+        const row = rawData[i];
+        const headerTexts = (row || []).map(cellHtml => getCleanTextContent(String(cellHtml || '')));
+
+        if (row && Array.isArray(row) && hasRequiredHeaders(headerTexts, schema)) {
+            headerIndex = i;
+            cleanHeaders = headerTexts.map(text => canonicalizeHeader(text, schema));
+            break;
+        }
+    }
+
+    if (headerIndex === -1) {
+        throw new Error(`Could not find the table header row containing ${formatRequiredHeaders(schema)}. Check the column settings.`);
+    }
+
+    const dataRows = rawData.slice(headerIndex + 1);
+
+    const structuredData: RowData[] = dataRows.map(rowArray => {
+        const rowObject: RowData = {};
+        cleanHeaders.forEach((header, index) => {
+            rowObject[header] = rowArray[index] ?? "";
+        });
+        return rowObject;
+    });
+
+    const mergedRows: RowData[] = [];
+    let lastParentRow: RowData | null = null;
+
+    for (const row of structuredData) {
+        const keyText = getCleanTextContent(String(row[schema.keyColumn] || ''));
+
+        const isTestStepRow = keyText.trim() !== '';
+
+        if (isCategoryRow(row, schema)) {
+            lastParentRow = null;
+            mergedRows.push(row);
+        } else if (isTestStepRow) {
+            lastParentRow = row;
+            mergedRows.push(row);
+        } else { // Continuation Row
+            if (lastParentRow) {
+                 for (const header of cleanHeaders) {
+                    const contentToAppend = row[header];
+                    if (contentToAppend && getCleanTextContent(String(contentToAppend)) !== "") {
+                        const existingContent = lastParentRow[header] || "";
+                        // A cell merged down over the step and its continuation rows is repeated in each; keep it once.
+                        if (String(existingContent).endsWith(String(contentToAppend))) continue;
+                        lastParentRow[header] = existingContent
+                            ? existingContent + contentToAppend
+                            : contentToAppend;
+                    }
+                }
+            } else {
+                // Orphaned continuation row, preserve it.
+                mergedRows.push(row);
+            }
+        }
+    }
+    return mergedRows;
+}
+
+
+export const getFirstTwoLinesKey = (htmlString: string): string => {
+    if (!htmlString) return '';
+    // Normalize various line break tags into a single separator
+    const withSeparators = htmlString.replace(/<br\s*\/?>|<\/p>|<\/div>/gi, '||LINE_BREAK||');
+
+    // Strip remaining HTML tags to get just text content
+    const textContent = htmlToText(withSeparators);
+
+    // Split into lines, filter empty ones, take the first two
+    const lines = textContent.split('||LINE_BREAK||')
+        .map(line => line.trim())
+        .filter(line => line);
+
+    // Join with a space to make it a single string for comparison
+    return lines.slice(0, 2).join(' ').trim();
+};
+
+// Tags that start a new line of text; every other tag only formats it.
+const LINE_TAG_PATTERN = /<(?:br|\/?(?:p|div|li|ul|ol|table|tr|td|th|h[1-6]))\b[^>]*>/gi;
+
+/**
+ * The words of a cell line by line, without fonts, spans or differences in spacing. Two cells
+ * with the same normalized text differ only in formatting.
+ */
+export const getNormalizedText = (htmlString: string): string => {
+    if (typeof htmlString !== 'string' || !htmlString) return '';
+    return htmlToText(htmlString.replace(LINE_TAG_PATTERN, '\n'))
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .filter(line => line)
+        .join('\n');
+};
+
+export const DEFAULT_COMPARISON_OPTIONS: ComparisonOptions = {
+    similarityThreshold: 0.6,
+    schema: DEFAULT_COLUMN_SCHEMA,
+    subCategoryPatterns: DEFAULT_SUB_CATEGORY_PATTERNS,
+    encoding: AUTO_ENCODING,
+    textDiff: DEFAULT_TEXT_DIFF_OPTIONS,
+};
+
+// Words, with each Chinese or Japanese character counted as a word of its own.
+const SIMILARITY_TOKEN_PATTERN = new RegExp(`[${CJK_CHARACTERS}]|(?:(?![${CJK_CHARACTERS}])[\\p{L}\\p{N}])+`, 'gu');
+
+const tokenizeForSimilarity = (text: string): Map<string, number> => {
+    const counts = new Map<string, number>();
+    for (const token of text.toLowerCase().match(SIMILARITY_TOKEN_PATTERN) ?? []) {
+        counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+    return counts;
+};
+
+/**
+ * Sørensen–Dice coefficient over word multisets: 1 for identical wording, 0 for no words in common.
+ */
+const diceCoefficient = (a: Map<string, number>, b: Map<string, number>): number => {
+    let sizeA = 0, sizeB = 0, shared = 0;
+    a.forEach(count => { sizeA += count; });
+    b.forEach(count => { sizeB += count; });
+    if (sizeA === 0 && sizeB === 0) return 1;
+    a.forEach((count, token) => { shared += Math.min(count, b.get(token) ?? 0); });
+    return (2 * shared) / (sizeA + sizeB);
+};
+
+interface RowInfo {
+    isCategory: boolean;
+    /** Category rows: the title. Test steps: the first two lines of the Procedure. */
+    key: string;
+    /** Plain Procedure + Expected Outcome text the similarity score is computed from. */
+    text: string;
+    tokens: Map<string, number>;
+}
+
+interface RowInfoCache {
+    get: (row: RowData) => RowInfo;
+    score: (rowA: RowData, rowB: RowData) => number;
+}
+
+/**
+ * Row matching looks at the same rows many times, so everything it needs from a row's HTML is
+ * extracted once per row and reused for every comparison.
+ */
+const createRowInfoCache = ({ schema, textDiff }: ComparisonOptions): RowInfoCache => {
+    const infos = new WeakMap<RowData, RowInfo>();
+
+    const get = (row: RowData): RowInfo => {
+        let info = infos.get(row);
+        if (!info) {
+            const isCategory = isCategoryRow(row, schema);
+            const procedure = String(row[CATEGORY_TITLE_COLUMN] || '');
+            // Text the ignore rules match does not make two rows more or less alike.
+            const text = removeIgnoredText(
+                schema.comparedColumns.map(column => getCleanTextContent(String(row[column] || ''))).join(' '),
+                textDiff.ignoreRules
+            );
+            info = {
+                isCategory,
+                key: isCategory ? getCleanTextContent(procedure) : getFirstTwoLinesKey(procedure),
+                text,
+                tokens: tokenizeForSimilarity(text),
+            };
+            infos.set(row, info);
+        }
+        return info;
+    };
+
+    return {
+        get,
+        score: (rowA, rowB) => diceCoefficient(get(rowA).tokens, get(rowB).tokens),
+    };
+};
+
+const getMatchedRowStatus = (originalRow: RowData, revisedRow: RowData, mode: ComparisonMode, options: ComparisonOptions): ChangeType => {
+    const { schema, textDiff } = options;
+    if (mode === 'step') {
+        const isContentEqual = schema.comparedColumns.every(column => isSameCell(String(originalRow[column] ?? ''), String(revisedRow[column] ?? ''), textDiff));
+        return isContentEqual ? ChangeType.UNCHANGED : ChangeType.MODIFIED;
+    } else { // mode === 'content'
+        // Rows were paired by content, so a changed key column (renumbered step) also counts as a modification.
+        const isFullyEqual = [...schema.comparedColumns, schema.keyColumn]
+            .every(column => isSameCell(String(originalRow[column] || '').trim(), String(revisedRow[column] || '').trim(), textDiff));
+        return isFullyEqual ? ChangeType.UNCHANGED : ChangeType.MODIFIED;
+    }
+};
+
+/** True when two versions of a column have the same words, apart from what the text diff options ignore. */
+export const isSameColumnText = (originalRow: RowData, revisedRow: RowData, column: string, textDiff: TextDiffOptions): boolean => {
+    const original = String(originalRow[column] ?? '');
+    const revised = String(revisedRow[column] ?? '');
+    return getNormalizedText(original) === getNormalizedText(revised) || (hasIgnoreOptions(textDiff) && isSameText(original, revised, textDiff));
+};
+
+const getModificationKind = (originalRow: RowData, revisedRow: RowData, options: ComparisonOptions): ModificationKind => {
+    const { schema, textDiff } = options;
+    const isTextEqual = [schema.keyColumn, ...schema.comparedColumns].every(column => isSameColumnText(originalRow, revisedRow, column, textDiff));
+    return isTextEqual ? 'formatting' : 'text';
+};
+
+/**
+ * Identity of a row independent of its position: category rows by their title,
+ * test steps by the first two lines of their Procedure. Null when the row has no usable identity.
+ */
+const getMoveIdentity = ({ isCategory, key }: RowInfo): string | null => {
+    if (isCategory) {
+        return `category:${key}`;
+    }
+    return key ? `step:${key}` : null;
+};
+
+/**
+ * The LCS only keeps rows that stay in the same relative order, so a relocated step comes out
+ * as a DELETED row at its old place and an ADDED row at its new one. Pair those up by identity
+ * and mark both as MOVED, linking each to its counterpart.
+ */
+const markMovedRows = (
+    pairedRows: ComparisonRowPair[],
+    mode: ComparisonMode,
+    options: ComparisonOptions,
+    rowInfo: RowInfoCache
+): void => {
+    const additions = pairedRows.filter(p => p.status === ChangeType.ADDED);
+    const deletions = pairedRows.filter(p => p.status === ChangeType.DELETED);
+    const claimed = new Set<ComparisonRowPair>();
+
+    const markMove = (deletion: ComparisonRowPair, addition: ComparisonRowPair) => {
+        const originalRow = deletion.original;
+        // Formatting and the differences the text diff options ignore do not make a moved step edited.
+        const edited = !rowInfo.get(originalRow).isCategory && options.schema.comparedColumns.some(column =>
+            !isSameColumnText(originalRow, addition.revised, column, options.textDiff)
+        );
+
+        claimed.add(addition);
+        deletion.status = ChangeType.MOVED;
+        deletion.move = { role: 'from', counterpartKey: addition.key, edited };
+        addition.status = ChangeType.MOVED;
+        addition.original = originalRow;
+        addition.move = { role: 'to', counterpartKey: deletion.key, edited };
+        if (mode === 'content' && !rowInfo.get(originalRow).isCategory) {
+            addition.similarity = rowInfo.score(originalRow, addition.revised);
+        }
+    };
+
+    for (const deletion of deletions) {
+        const identity = getMoveIdentity(rowInfo.get(deletion.original));
+        const addition = identity && additions.find(a => !claimed.has(a) && getMoveIdentity(rowInfo.get(a.revised)) === identity);
+        if (addition) markMove(deletion, addition);
+    }
+
+    // Content mode also pairs relocated steps whose first lines were edited, using the same threshold as row matching.
+    if (mode !== 'content') return;
+    for (const deletion of deletions) {
+        if (deletion.status !== ChangeType.DELETED || rowInfo.get(deletion.original).isCategory) continue;
+        let best: ComparisonRowPair | null = null;
+        let bestScore = options.similarityThreshold;
+        for (const addition of additions) {
+            if (claimed.has(addition) || rowInfo.get(addition.revised).isCategory) continue;
+            const score = rowInfo.score(deletion.original, addition.revised);
+            if (score >= bestScore) {
+                best = addition;
+                bestScore = score;
+            }
+        }
+        if (best) markMove(deletion, best);
+    }
+};
+
+export const computeDiffSummary = (rows: ComparisonRowPair[]): DiffSummary => {
+    const diffSummary: DiffSummary = { added: 0, deleted: 0, modified: 0, formattingOnly: 0, moved: 0 };
+    rows.forEach(p => {
+        if (p.status === ChangeType.ADDED) diffSummary.added++;
+        if (p.status === ChangeType.DELETED) diffSummary.deleted++;
+        if (p.status === ChangeType.MODIFIED) diffSummary.modified++;
+        if (p.status === ChangeType.MODIFIED && p.modification === 'formatting') diffSummary.formattingOnly++;
+        // A move is listed twice (old and new position) but counted once.
+        if (p.status === ChangeType.MOVED && p.move?.role === 'to') diffSummary.moved++;
+    });
+    return diffSummary;
+};
+
+/**
+ * Pairs the rows of two tables. A Myers O(ND) diff first lines up rows that certainly belong
+ * together: equal keys in step mode, identical text or category titles in content mode. In content
+ * mode the rows left between two such anchors are then paired by a weighted LCS that prefers the
+ * most similar candidates; those gaps are small unless most of the document was rewritten.
+ * Reports progress as the number of original rows processed.
+ */
+export const performLcsDiff = (
+    original: RowData[],
+    revised: RowData[],
+    mode: ComparisonMode,
+    options: ComparisonOptions = DEFAULT_COMPARISON_OPTIONS,
+    onProgress?: (completed: number, total: number) => void
+): ComparisonOutput => {
+    const rowInfo = createRowInfoCache(options);
+    const suppressedDifferences = options.textDiff.ignoreRules.map(() => 0);
+
+    /**
+     * How strongly two rows should be paired; 0 means they cannot be paired. Matches score 1 plus
+     * their content similarity, so the gap LCS first maximizes the number of paired rows and then
+     * prefers the closest candidates.
+     */
+    const getMatchWeight = (rowA: RowData, rowB: RowData): number => {
+        const infoA = rowInfo.get(rowA);
+        const infoB = rowInfo.get(rowB);
+
+        if (infoA.isCategory && infoB.isCategory) {
+            return infoA.key === infoB.key ? 1 : 0;
+        }
+        if (infoA.isCategory !== infoB.isCategory) {
+             return 0;
+        }
+
+        if (mode === 'step') {
+            const keyA = String(rowA[options.schema.keyColumn] || '').trim();
+            const keyB = String(rowB[options.schema.keyColumn] || '').trim();
+            return keyA === keyB ? 1 : 0;
+        } else { // mode === 'content'
+            const score = rowInfo.score(rowA, rowB);
+            const isKeyMatch = infoA.key !== '' && infoA.key === infoB.key;
+
+            return isKeyMatch || score >= options.similarityThreshold ? 1 + score : 0;
+        }
+    };
+
+    const isAnchor = mode === 'step'
+        ? (i: number, j: number) => getMatchWeight(original[i], revised[j]) > 0
+        : (i: number, j: number) => {
+            const infoA = rowInfo.get(original[i]);
+            const infoB = rowInfo.get(revised[j]);
+            return infoA.isCategory === infoB.isCategory && (infoA.isCategory ? infoA.key === infoB.key : infoA.text === infoB.text);
+        };
+
+    const pairedRows: ComparisonRowPair[] = [];
+    const pushMatch = (i: number, j: number) => {
+        const originalRow = original[i];
+        const revisedRow = revised[j];
+        const isCategory = rowInfo.get(originalRow).isCategory;
+        const status = isCategory ? ChangeType.UNCHANGED : getMatchedRowStatus(originalRow, revisedRow, mode, options);
+        const pair: ComparisonRowPair = { status: status, original: originalRow, revised: revisedRow, key: `match-${i + 1}-${j + 1}` };
+        if (status === ChangeType.MODIFIED) {
+            pair.modification = getModificationKind(originalRow, revisedRow, options);
+        }
+        if (mode === 'content' && !isCategory) {
+            pair.similarity = rowInfo.score(originalRow, revisedRow);
+        }
+        if (!isCategory) {
+            options.schema.comparedColumns.forEach(column => countSuppressedDifferences(
+                String(originalRow[column] ?? ''), String(revisedRow[column] ?? ''), options.textDiff.ignoreRules, suppressedDifferences
+            ));
+        }
+        pairedRows.push(pair);
+    };
+    const pushUnmatched = (originalStart: number, originalEnd: number, revisedStart: number, revisedEnd: number) => {
+        for (let i = originalStart; i < originalEnd; i++) {
+            pairedRows.push({ status: ChangeType.DELETED, original: original[i], revised: null, key: `original-${i + 1}` });
+        }
+        for (let j = revisedStart; j < revisedEnd; j++) {
+            pairedRows.push({ status: ChangeType.ADDED, original: null, revised: revised[j], key: `revised-${j + 1}` });
+        }
+    };
+
+    /**
+     * Weighted LCS over the rows between two anchors. Deletions are listed before additions
+     * wherever rows could not be paired.
+     */
+    const pairGap = (originalStart: number, originalEnd: number, revisedStart: number, revisedEnd: number) => {
+        const m = originalEnd - originalStart;
+        const n = revisedEnd - revisedStart;
+        if (m === 0 || n === 0) {
+            pushUnmatched(originalStart, originalEnd, revisedStart, revisedEnd);
+            return;
+        }
+
+        const weights = new Float64Array(m * n);
+        const dp = Array(m + 1).fill(null).map(() => new Float64Array(n + 1));
+        for (let i = 1; i <= m; i++) {
+            for (let j = 1; j <= n; j++) {
+                const weight = getMatchWeight(original[originalStart + i - 1], revised[revisedStart + j - 1]);
+                weights[(i - 1) * n + (j - 1)] = weight;
+                dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1], weight > 0 ? dp[i - 1][j - 1] + weight : 0);
+            }
+            onProgress?.(originalStart + i, original.length);
+        }
+
+        const matches: Array<[number, number]> = [];
+        let i = m, j = n;
+        while (i > 0 && j > 0) {
+            const weight = weights[(i - 1) * n + (j - 1)];
+            if (weight > 0 && dp[i][j] === dp[i - 1][j - 1] + weight) {
+                matches.unshift([originalStart + i - 1, revisedStart + j - 1]);
+                i--; j--;
+            } else if (dp[i][j - 1] >= dp[i - 1][j]) {
+                j--;
+            } else {
+                i--;
+            }
+        }
+
+        let nextOriginal = originalStart, nextRevised = revisedStart;
+        for (const [matchOriginal, matchRevised] of matches) {
+            pushUnmatched(nextOriginal, matchOriginal, nextRevised, matchRevised);
+            pushMatch(matchOriginal, matchRevised);
+            nextOriginal = matchOriginal + 1;
+            nextRevised = matchRevised + 1;
+        }
+        pushUnmatched(nextOriginal, originalEnd, nextRevised, revisedEnd);
+    };
+
+    // In step mode the anchors already are a longest match, so nothing between them can pair up.
+    const fillGap = mode === 'content' ? pairGap : pushUnmatched;
+
+    let nextOriginal = 0, nextRevised = 0;
+    for (const [i, j] of findCommonSubsequence(original.length, revised.length, isAnchor)) {
+        fillGap(nextOriginal, i, nextRevised, j);
+        pushMatch(i, j);
+        nextOriginal = i + 1;
+        nextRevised = j + 1;
+        onProgress?.(nextOriginal, original.length);
+    }
+    fillGap(nextOriginal, original.length, nextRevised, revised.length);
+    onProgress?.(original.length, original.length);
+
+    markMovedRows(pairedRows, mode, options, rowInfo);
+    const diffSummary = computeDiffSummary(pairedRows);
+
+    const allHeaders = Array.from(new Set([...(original[0] ? Object.keys(original[0]) : []), ...(revised[0] ? Object.keys(revised[0]) : [])]));
+
+    return {
+      result: {
+        headers: allHeaders,
+        rows: pairedRows,
+        keyColumn: options.schema.keyColumn,
+        comparedColumns: options.schema.comparedColumns,
+        subCategoryPatterns: options.subCategoryPatterns,
+        textDiff: options.textDiff,
+        suppressedDifferences,
+      },
+      diffSummary: diffSummary
+    };
+};
+
+/**
+ * Runs the full pipeline on two parsed tables: header detection, row merging and the row diff.
+ * Shared by the UI and the CLI so both report identical results.
+ */
+export const compareRawData = (
+    originalRawData: any[][],
+    revisedRawData: any[][],
+    mode: ComparisonMode,
+    options: ComparisonOptions = DEFAULT_COMPARISON_OPTIONS,
+    onProgress?: (completed: number, total: number) => void
+): ComparisonOutput => {
+    const originalTestSteps = processRawData(originalRawData, options.schema);
+    const revisedTestSteps = processRawData(revisedRawData, options.schema);
+
+    if (originalTestSteps.length === 0 && revisedTestSteps.length === 0) {
+        throw new Error(`No comparable test step data could be found in either file. Please ensure each file contains a table with a header row with ${formatRequiredHeaders(options.schema)}.`);
+    }
+
+    return performLcsDiff(originalTestSteps, revisedTestSteps, mode, options, onProgress);
+};
+
+export const compareHtmlStrings = (
+    originalHtml: string,
+    revisedHtml: string,
+    mode: ComparisonMode,
+    options: ComparisonOptions = DEFAULT_COMPARISON_OPTIONS
+): ComparisonOutput => {
+    return compareRawData(parseHtmlString(originalHtml, options.schema), parseHtmlString(revisedHtml, options.schema), mode, options);
+};
@@ -0,0 +1,168 @@
+import { CellChange, ChangeType, ComparisonMode, ComparisonPatch, ComparisonResult, PatchAnchor, PatchOperation, RowData } from '../types';
+import { getCleanTextContent, getFirstTwoLinesKey, isCategoryRow, TableColumns } from './comparisonEngine';
+import { CATEGORY_TITLE_COLUMN } from './columnSchema';
+import { isRecord, isStringList } from './jsonData';
+import { createCellSanitizer, logSanitizeReport, SanitizeReport, sanitizeRow } from './htmlSanitizer';
+
+export const PATCH_FORMAT = 'tc-comparator-patch';
+export const PATCH_VERSION = 1;
+export const PATCH_FILE_EXTENSION = '.tcpatch.json';
+
+/** The text a row is found by: its title for a category row, otherwise its key column or its first Procedure lines. */
+export const getAnchorValue = (row: RowData, keyedBy: ComparisonMode, columns: TableColumns): string => {
+  if (isCategoryRow(row, columns)) return getCleanTextContent(String(row[CATEGORY_TITLE_COLUMN] ?? ''));
+  return keyedBy === 'step'
+    ? getCleanTextContent(String(row[columns.keyColumn] ?? ''))
+    : getFirstTwoLinesKey(String(row[CATEGORY_TITLE_COLUMN] ?? ''));
+};
+
+/** Describes the row an operation works on, for reports: step 4, step "Open the app", category "Login". */
+export const describeAnchor = (anchor: PatchAnchor | null, keyedBy: ComparisonMode): string => {
+  if (!anchor) return 'the top of the table';
+  if (anchor.isCategory) return `category "${anchor.value}"`;
+  return keyedBy === 'step' ? `step ${anchor.value}` : `step "${anchor.value}"`;
+};
+
+const getCellChanges = (original: RowData, revised: RowData, columns: string[]): Record<string, CellChange> => {
+  const changes: Record<string, CellChange> = {};
+  columns.forEach(column => {
+    const from = String(original[column] ?? '');
+    const to = String(revised[column] ?? '');
+    if (from.trim() !== to.trim()) changes[column] = { from, to };
+  });
+  return changes;
+};
+
+/**
+ * Turns a comparison into a patch that replays it on another copy of the original document. Rows are
+ * identified the way the comparison matched them: by key column in step mode, by content otherwise.
+ */
+export const createPatch = (result: ComparisonResult, mode: ComparisonMode, originalFileName: string, revisedFileName: string): ComparisonPatch => {
+  const { rows, keyColumn, comparedColumns } = result;
+  // Content mode pairs renumbered steps, and a moved step usually gets a new number, so the key column is carried too.
+  const columns = [keyColumn, ...comparedColumns];
+
+  // Sections as they are in the original document. A moved step's 'to' row sits at its new position,
+  // so it takes the section of its 'from' row.
+  const originalSectionByKey = new Map<string | number, string>();
+  let section = '';
+  rows.forEach(pair => {
+    if (!pair.original || pair.move?.role === 'to') return;
+    if (isCategoryRow(pair.original, result)) section = getCleanTextContent(String(pair.original[CATEGORY_TITLE_COLUMN] ?? ''));
+    originalSectionByKey.set(pair.key, section);
+  });
+
+  const anchorOf = (row: RowData, sectionKey: string | number): PatchAnchor => ({
+    value: getAnchorValue(row, mode, result),
+    isCategory: isCategoryRow(row, result),
+    section: originalSectionByKey.get(sectionKey) ?? '',
+  });
+
+  const operations: PatchOperation[] = [];
+  // The last row of the revised document that the original also has; new rows are placed after it.
+  let after: PatchAnchor | null = null;
+  rows.forEach(pair => {
+    const { status, original, revised, move } = pair;
+    if (status === ChangeType.ADDED && revised) {
+      operations.push({ op: 'insert', after, row: revised });
+    } else if (status === ChangeType.DELETED && original) {
+      operations.push({ op: 'delete', target: anchorOf(original, pair.key), row: original });
+    } else if (status === ChangeType.MOVED && move?.role === 'to' && original && revised) {
+      const target = anchorOf(original, move.counterpartKey);
+      operations.push({ op: 'move', target, after, changes: getCellChanges(original, revised, columns) });
+      after = target;
+    } else if ((status === ChangeType.MODIFIED || status === ChangeType.UNCHANGED) && original && revised) {
+      const target = anchorOf(original, pair.key);
+      if (status === ChangeType.MODIFIED) {
+        operations.push({ op: 'modify', target, changes: getCellChanges(original, revised, columns) });
+      }
+      after = target;
+    }
+  });
+
+  return {
+    format: PATCH_FORMAT,
+    version: PATCH_VERSION,
+    createdAt: new Date().toISOString(),
+    keyedBy: mode,
+    keyColumn,
+    comparedColumns,
+    source: { original: originalFileName, revised: revisedFileName },
+    operations,
+  };
+};
+
+const isAnchor = (value: unknown): value is PatchAnchor =>
+  isRecord(value) && typeof value.value === 'string' && typeof value.isCategory === 'boolean' && typeof value.section === 'string';
+
+const isChanges = (value: unknown): value is Record<string, CellChange> =>
+  isRecord(value) && Object.values(value).every(change => isRecord(change) && typeof change.from === 'string' && typeof change.to === 'string');
+
+const isOperation = (value: unknown): value is PatchOperation => {
+  if (!isRecord(value)) return false;
+  switch (value.op) {
+    case 'insert':
+      return (value.after === null || isAnchor(value.after)) && isRecord(value.row);
+    case 'delete':
+      return isAnchor(value.target) && isRecord(value.row);
+    case 'modify':
+      return isAnchor(value.target) && isChanges(value.changes);
+    case 'move':
+      return isAnchor(value.target) && (value.after === null || isAnchor(value.after)) && isChanges(value.changes);
+    default:
+      return false;
+  }
+};
+
+/** Reads a patch file, throwing an error that can be shown as is when it is not one this version understands. */
+export const parsePatch = (text: string): ComparisonPatch => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not a comparison patch.");
+  }
+  if (!isRecord(data) || data.format !== PATCH_FORMAT) {
+    throw new Error("The file is not a comparison patch.");
+  }
+  if (typeof data.version !== 'number' || data.version > PATCH_VERSION) {
+    throw new Error("The patch was made by a newer version of the app.");
+  }
+  const { keyedBy, keyColumn, comparedColumns, operations: savedOperations } = data;
+  if ((keyedBy !== 'step' && keyedBy !== 'content') || typeof keyColumn !== 'string' || !isStringList(comparedColumns) || !Array.isArray(savedOperations)) {
+    throw new Error("The patch file is incomplete or damaged.");
+  }
+  const invalidIndex = savedOperations.findIndex((operation: unknown) => !isOperation(operation));
+  if (invalidIndex !== -1) {
+    throw new Error(`Hunk ${invalidIndex + 1} of the patch is not a valid operation.`);
+  }
+
+  // The patched document is downloaded as HTML, so the cells a patch writes are cleaned like uploaded ones.
+  const removed: SanitizeReport = {};
+  const sanitize = createCellSanitizer(removed);
+  const sanitizeChanges = (changes: Record<string, CellChange>): Record<string, CellChange> =>
+    Object.fromEntries(Object.entries(changes).map(([column, { from, to }]) => [column, { from: sanitize(from), to: sanitize(to) }]));
+  const operations = savedOperations.filter(isOperation).map((operation): PatchOperation => {
+    switch (operation.op) {
+      case 'insert':
+      case 'delete':
+        return { ...operation, row: sanitizeRow(operation.row, sanitize) };
+      case 'modify':
+      case 'move':
+        return { ...operation, changes: sanitizeChanges(operation.changes) };
+    }
+  });
+  logSanitizeReport('the patch', removed);
+
+  const source = isRecord(data.source) ? data.source : {};
+  return {
+    format: PATCH_FORMAT,
+    version: data.version,
+    createdAt: typeof data.createdAt === 'string' ? data.createdAt : '',
+    keyedBy,
+    keyColumn,
+    comparedColumns,
+    source: { original: String(source.original ?? ''), revised: String(source.revised ?? '') },
+    operations,
+  };
+};
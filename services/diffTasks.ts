@@ -0,0 +1,51 @@
+import { ComparisonMode, ComparisonOptions, ComparisonOutput, ThreeWayResult, VersionHistory } from '../types';
+import { compareRawData } from './comparisonEngine';
+import { compareThreeWayRawData } from './threeWayMerge';
+import { buildVersionHistory, NamedVersion } from './versionHistory';
+
+/**
+ * The comparisons that can run off the main thread. Tasks carry already-parsed tables because
+ * parsing HTML needs the DOM, which a worker does not have.
+ */
+export type DiffTask =
+  | { kind: 'compare'; originalRawData: any[][]; revisedRawData: any[][]; mode: ComparisonMode; options: ComparisonOptions }
+  | { kind: 'threeWay'; baseRawData: any[][]; versionARawData: any[][]; versionBRawData: any[][]; mode: ComparisonMode; options: ComparisonOptions }
+  | { kind: 'history'; versions: NamedVersion[]; mode: ComparisonMode; options: ComparisonOptions };
+
+interface DiffTaskResults {
+  compare: ComparisonOutput;
+  threeWay: ThreeWayResult;
+  history: VersionHistory;
+}
+
+export type DiffTaskResult<T extends DiffTask> = DiffTaskResults[T['kind']];
+
+export type DiffWorkerRequest = { id: number; task: DiffTask };
+
+export type DiffWorkerResponse =
+  | { id: number; type: 'progress'; completed: number; total: number }
+  | { id: number; type: 'done'; result: unknown }
+  | { id: number; type: 'error'; message: string };
+
+export type ProgressCallback = (completed: number, total: number) => void;
+
+export class ComparisonCancelledError extends Error {
+  constructor() {
+    super("The comparison was cancelled.");
+    this.name = 'ComparisonCancelledError';
+  }
+}
+
+/**
+ * Runs a task synchronously: inside the worker, or on the calling thread where Web Workers are not available.
+ */
+export const executeDiffTask = (task: DiffTask, onProgress?: ProgressCallback): unknown => {
+  switch (task.kind) {
+    case 'compare':
+      return compareRawData(task.originalRawData, task.revisedRawData, task.mode, task.options, onProgress);
+    case 'threeWay':
+      return compareThreeWayRawData(task.baseRawData, task.versionARawData, task.versionBRawData, task.mode, task.options, onProgress);
+    case 'history':
+      return buildVersionHistory(task.versions, task.mode, task.options, onProgress);
+  }
+};
@@ -0,0 +1,21 @@
+import { DiffWorkerRequest, DiffWorkerResponse, executeDiffTask } from './diffTasks';
+
+const post = (response: DiffWorkerResponse) => self.postMessage(response);
+
+self.addEventListener('message', (event: MessageEvent<DiffWorkerRequest>) => {
+  const { id, task } = event.data;
+  // Progress is reported per row; only forward it when the whole percentage changes.
+  let lastPercent = -1;
+  const onProgress = (completed: number, total: number) => {
+    const percent = total > 0 ? Math.floor((completed / total) * 100) : 100;
+    if (percent === lastPercent) return;
+    lastPercent = percent;
+    post({ id, type: 'progress', completed, total });
+  };
+
+  try {
+    post({ id, type: 'done', result: executeDiffTask(task, onProgress) });
+  } catch (e) {
+    post({ id, type: 'error', message: e instanceof Error ? e.message : String(e) });
+  }
+});
@@ -0,0 +1,76 @@
+import { ComparisonCancelledError, DiffTask, DiffTaskResult, DiffWorkerRequest, DiffWorkerResponse, executeDiffTask, ProgressCallback } from './diffTasks';
+
+export interface RunningDiffTask<R> {
+  promise: Promise<R>;
+  cancel: () => void;
+}
+
+interface PendingTask {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressCallback;
+}
+
+let worker: Worker | null = null;
+let nextTaskId = 1;
+const pendingTasks = new Map<number, PendingTask>();
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./diffWorker.ts', import.meta.url), { type: 'module' });
+  worker.addEventListener('message', (event: MessageEvent<DiffWorkerResponse>) => {
+    const response = event.data;
+    const pending = pendingTasks.get(response.id);
+    if (!pending) return;
+    if (response.type === 'progress') {
+      pending.onProgress?.(response.completed, response.total);
+      return;
+    }
+    pendingTasks.delete(response.id);
+    if (response.type === 'done') {
+      pending.resolve(response.result);
+    } else {
+      pending.reject(new Error(response.message));
+    }
+  });
+  worker.addEventListener('error', (event) => {
+    const error = new Error(event.message || "The comparison worker failed.");
+    pendingTasks.forEach(pending => pending.reject(error));
+    pendingTasks.clear();
+    worker?.terminate();
+    worker = null;
+  });
+  return worker;
+};
+
+/**
+ * Runs a diff task in a Web Worker so large documents do not freeze the page. Cancelling stops the
+ * worker outright (a running diff cannot be interrupted otherwise); the next task starts a fresh one.
+ */
+export const runDiffTask = <T extends DiffTask>(task: T, onProgress?: ProgressCallback): RunningDiffTask<DiffTaskResult<T>> => {
+  if (typeof Worker === 'undefined') {
+    return {
+      promise: new Promise(resolve => resolve(executeDiffTask(task, onProgress) as DiffTaskResult<T>)),
+      cancel: () => {},
+    };
+  }
+
+  const id = nextTaskId++;
+  const promise = new Promise<DiffTaskResult<T>>((resolve, reject) => {
+    pendingTasks.set(id, { resolve: resolve as (result: unknown) => void, reject, onProgress });
+    const request: DiffWorkerRequest = { id, task };
+    getWorker().postMessage(request);
+  });
+
+  const cancel = () => {
+    const pending = pendingTasks.get(id);
+    if (!pending) return;
+    // Other tasks queued on the same worker die with it, so they are cancelled too.
+    pendingTasks.forEach(p => p.reject(new ComparisonCancelledError()));
+    pendingTasks.clear();
+    worker?.terminate();
+    worker = null;
+  };
+
+  return { promise, cancel };
+};
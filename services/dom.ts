@@ -0,0 +1,35 @@
+/**
+ * The comparison engine only needs two DOM capabilities: parsing an HTML string
+ * into a document and a scratch element to read text content from. In the browser
+ * these come from the global `DOMParser`/`document`; in Node a stand-in such as
+ * linkedom or jsdom can be registered with `setDomEnvironment`.
+ */
+export interface DomEnvironment {
+  DOMParser: { new (): DOMParser };
+  document: Document;
+}
+
+let registeredEnvironment: DomEnvironment | null = null;
+
+export const setDomEnvironment = (environment: DomEnvironment | null): void => {
+  registeredEnvironment = environment;
+};
+
+export const getDomEnvironment = (): DomEnvironment => {
+  if (registeredEnvironment) {
+    return registeredEnvironment;
+  }
+  if (typeof DOMParser !== 'undefined' && typeof document !== 'undefined') {
+    return { DOMParser, document };
+  }
+  throw new Error("No DOM implementation is available. Register one with setDomEnvironment() before comparing.");
+};
+
+export const parseHtmlDocument = (htmlString: string): Document => {
+  const { DOMParser: Parser } = getDomEnvironment();
+  return new Parser().parseFromString(htmlString, 'text/html');
+};
+
+export const createScratchElement = (): HTMLElement => {
+  return getDomEnvironment().document.createElement('div');
+};
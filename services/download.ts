@@ -0,0 +1,21 @@
+/**
+ * Triggers a browser download of generated text content (reports, exports) without a server round-trip.
+ */
+export const downloadTextFile = (fileName: string, content: string, mimeType: string): void => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Turns an arbitrary label (e.g. a TC id or file name) into something safe to use in a download file name.
+ */
+export const toFileNameSegment = (label: string): string => {
+  return label.replace(/[^\w.-]+/g, '_');
+};
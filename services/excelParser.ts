@@ -1,4 +1,418 @@
-export const parseHtmlFile = (file: File): Promise<any[][]> => {
+import { read as readWorkbook, utils as sheetUtils, CellObject, WorkSheet } from 'xlsx';
+import { ColumnSchema } from '../types';
+import { parseHtmlDocument } from './dom';
+import { escapeHtml } from './htmlUtils';
+import { logSanitizeReport, SanitizeReport, sanitizeTable } from './htmlSanitizer';
+import { AUTO_ENCODING, bytesToBinaryString, decodeText, DecodedText } from './textEncoding';
+import { extractWebArchiveHtml, isWebArchive } from './webArchive';
+import { canonicalizeHeader, CATEGORY_TITLE_COLUMN, DEFAULT_COLUMN_SCHEMA, formatRequiredHeaders, hasRequiredHeaders } from './columnSchema';
+
+
+export type TestCaseFileFormat = 'html' | 'mht' | 'doc' | 'xlsx' | 'csv';
+
+export const SUPPORTED_FILE_EXTENSIONS = ['.html', '.htm', '.mht', '.mhtml', '.doc', '.xlsx', '.csv'];
+
+export const detectFileFormat = (fileName: string): TestCaseFileFormat | null => {
+  const extension = fileName.toLowerCase().match(/\.[^.]+$/)?.[0] ?? '';
+  switch (extension) {
+    case '.html':
+    case '.htm':
+      return 'html';
+    case '.mht':
+    case '.mhtml':
+      return 'mht';
+    case '.doc':
+      return 'doc';
+    case '.xlsx':
+      return 'xlsx';
+    case '.csv':
+      return 'csv';
+    default:
+      return null;
+  }
+};
+
+/**
+ * Spreadsheet cells hold plain text, while the rest of the pipeline works on cell HTML
+ * (as read from the HTML tables). Escape the text and keep in-cell line breaks as <br>.
+ */
+const plainTextToCellHtml = (text: string): string => {
+  return escapeHtml(text).replace(/\r\n|\r|\n/g, '<br>');
+};
+
+/** A row of a document's table that had to be fixed up to line its cells up with the headers. */
+export interface TableRepair {
+  /** The row's position in the table, counting the header row as row 1. */
+  row: number;
+  message: string;
+}
+
+/** How a file was read, for the parse diagnostics panel. */
+export interface ParseDiagnostics {
+  fileName: string;
+  /** The encoding a text file was decoded in and how it was chosen; null for workbooks. */
+  encoding: Pick<DecodedText, 'encoding' | 'source'> | null;
+  repairs: TableRepair[];
+  /** What the sanitizer removed from the cells. */
+  removed: SanitizeReport;
+}
+
+export const createParseDiagnostics = (fileName: string): ParseDiagnostics => ({
+  fileName,
+  encoding: null,
+  repairs: [],
+  removed: {},
+});
+
+/** A cell placed in the table grid; a merged cell occupies every slot it spans. */
+interface GridCell {
+  html: string;
+  text: string;
+  row: number;
+  column: number;
+  rowSpan: number;
+  colSpan: number;
+  hasNestedTable: boolean;
+}
+
+// Browsers ignore colspan values above this.
+const MAX_COLSPAN = 1000;
+
+/** The rows of a table itself, leaving out the rows of tables nested in its cells. */
+const getDirectRows = (table: Element): Element[] => {
+  return Array.from(table.children).flatMap(child => {
+    const tag = child.tagName.toLowerCase();
+    if (tag === 'tr') return [child];
+    if (tag === 'thead' || tag === 'tbody' || tag === 'tfoot') {
+      return Array.from(child.children).filter(row => row.tagName.toLowerCase() === 'tr');
+    }
+    return [];
+  });
+};
+
+const readSpan = (cell: Element, attribute: 'rowspan' | 'colspan', max: number): number => {
+  const span = parseInt(cell.getAttribute(attribute) ?? '', 10);
+  // rowspan="0" runs to the end of the table.
+  if (span === 0 && attribute === 'rowspan') return max;
+  return span > 0 ? Math.min(span, max) : 1;
+};
+
+/**
+ * Lays the cells of the rows out the way a browser does: each cell takes the first slot its row has free,
+ * and a merged cell also takes the slots it spans in the following columns and rows.
+ */
+const layOutTable = (rows: Element[]): Array<Array<GridCell | undefined>> => {
+  const grid: Array<Array<GridCell | undefined>> = rows.map(() => []);
+  rows.forEach((row, y) => {
+    let x = 0;
+    for (const element of Array.from(row.children)) {
+      const tag = element.tagName.toLowerCase();
+      if (tag !== 'td' && tag !== 'th') continue;
+      while (grid[y][x]) x++;
+      const cell: GridCell = {
+        html: element.innerHTML || '',
+        text: element.textContent?.trim() || '',
+        row: y,
+        column: x,
+        rowSpan: readSpan(element, 'rowspan', rows.length - y),
+        colSpan: readSpan(element, 'colspan', MAX_COLSPAN),
+        hasNestedTable: !!element.querySelector('table'),
+      };
+      for (let dy = 0; dy < cell.rowSpan; dy++) {
+        for (let dx = 0; dx < cell.colSpan; dx++) {
+          grid[y + dy][x + dx] = cell;
+        }
+      }
+      x += cell.colSpan;
+    }
+  });
+  return grid;
+};
+
+/** The texts of the cells that start in a grid row, with '' for slots taken by cells from other columns or rows. */
+const getRowTexts = (slots: Array<GridCell | undefined>, y: number): string[] => {
+  return Array.from(slots, (cell, x) => (cell && cell.row === y && cell.column === x ? cell.text : ''));
+};
+
+/**
+ * Turns the grid into rows of cell HTML lined up with the header row (the first row). A cell merged down
+ * is repeated in every row it covers, as a shared Expected Outcome belongs to each of its steps, except in
+ * the key column: there it stays in its first row, so the rows below continue that step. A cell
+ * merged across is kept in its first column. A single cell across the whole table is a section heading and
+ * goes to the Procedure column, where category titles are read from. Every such fix is added to `repairs`.
+ */
+const readGridRows = (
+  grid: Array<Array<GridCell | undefined>>,
+  schema: ColumnSchema,
+  repairs: TableRepair[]
+): string[][] => {
+  const headers = getRowTexts(grid[0] ?? [], 0);
+  const width = headers.length;
+  const titleColumn = headers.findIndex(header => canonicalizeHeader(header, schema) === CATEGORY_TITLE_COLUMN);
+  const keyColumn = headers.findIndex(header => canonicalizeHeader(header, schema) === schema.keyColumn);
+  const columnName = (x: number) => headers[x] || `column ${x + 1}`;
+
+  return grid.map((slots, y) => {
+    const notes: string[] = [];
+    const first = slots[0];
+    const isHeading = y > 0 && width > 1 && titleColumn !== -1 && !!first && first.row === y
+      && first.colSpan >= width && slots.every(cell => cell === first);
+
+    let cells: string[];
+    if (isHeading) {
+      cells = Array<string>(width).fill('');
+      cells[titleColumn] = first.html;
+      notes.push(`cell across all ${width} columns read as a section heading`);
+    } else {
+      cells = Array.from(slots, (cell, x) => {
+        if (!cell || cell.column !== x) return '';
+        if (cell.row !== y && x === keyColumn) {
+          notes.push(`${columnName(x)} merged with row ${cell.row + 1}, read as a continuation of that step`);
+          return '';
+        }
+        if (cell.row !== y) {
+          notes.push(`${columnName(x)} repeated from the merged cell in row ${cell.row + 1}`);
+        } else if (cell.colSpan > 1 && x < width) {
+          notes.push(`${columnName(x)} spans ${Math.min(cell.colSpan, width - x)} columns, kept under ${columnName(x)}`);
+        }
+        return cell.html;
+      });
+    }
+
+    slots.forEach((cell, x) => {
+      if (cell?.hasNestedTable && cell.row === y && cell.column === x) {
+        notes.push(`table inside ${columnName(x)} kept as part of the cell`);
+      }
+    });
+    const ignored = getRowTexts(slots, y).slice(width).filter(text => text !== '').length;
+    if (y > 0 && ignored > 0) {
+      notes.push(`${ignored} ${ignored === 1 ? 'cell' : 'cells'} past the last column ignored`);
+    }
+
+    if (notes.length > 0) repairs.push({ row: y + 1, message: notes.join('; ') });
+    return cells;
+  });
+};
+
+/**
+ * Reads the first table whose first row has the required headers. Only the table's own rows are read, so
+ * the rows of a table nested in a cell stay part of that cell, and merged cells are expanded into a grid.
+ */
+export const parseHtmlString = (
+  htmlString: string,
+  schema: ColumnSchema = DEFAULT_COLUMN_SCHEMA,
+  repairs: TableRepair[] = []
+): any[][] => {
+  let doc: Document;
+  try {
+    doc = parseHtmlDocument(htmlString);
+  } catch {
+    throw new Error("Error parsing HTML file. Please ensure it's a valid .html file.");
+  }
+
+  const tables = doc.querySelectorAll('table');
+  if (tables.length === 0) {
+      throw new Error("No tables found in the HTML file.");
+  }
+
+  for (const table of Array.from(tables)) {
+      const grid = layOutTable(getDirectRows(table));
+      if (grid.length > 0 && hasRequiredHeaders(getRowTexts(grid[0], 0), schema)) {
+          return readGridRows(grid, schema, repairs);
+      }
+  }
+
+  throw new Error(`Could not find a table with the required headers: ${formatRequiredHeaders(schema)}.`);
+};
+
+const getCellHtml = (cell: CellObject | undefined): string => {
+  if (!cell || cell.v === undefined || cell.v === null) return '';
+  // Rich text cells carry their own HTML rendering; everything else uses the formatted text.
+  // <br/> is rewritten to match how the HTML parser serializes line breaks.
+  if (cell.t === 's' && cell.r && cell.h) return cell.h.replace(/<br\s*\/>/gi, '<br>');
+  return plainTextToCellHtml(cell.w ?? String(cell.v));
+};
+
+const getCellText = (cell: CellObject | undefined): string => {
+  if (!cell || cell.v === undefined || cell.v === null) return '';
+  return String(cell.w ?? cell.v);
+};
+
+const readSheetRows = (sheet: WorkSheet, toCell: (cell: CellObject | undefined) => string): string[][] => {
+  if (!sheet['!ref']) return [];
+  const range = sheetUtils.decode_range(sheet['!ref']);
+  const rows: string[][] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      row.push(toCell(sheet[sheetUtils.encode_cell({ r, c })]));
+    }
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Reads an .xlsx workbook and returns the rows of the first sheet that contains the
+ * header row the schema requires, in the same shape as `parseHtmlString`.
+ */
+export const parseXlsxBuffer = (data: ArrayBuffer | Uint8Array, schema: ColumnSchema = DEFAULT_COLUMN_SCHEMA): any[][] => {
+  let workbook;
+  try {
+    workbook = readWorkbook(data, { type: 'array', cellHTML: true });
+  } catch {
+    throw new Error("Error parsing Excel file. Please ensure it's a valid .xlsx workbook.");
+  }
+
+  for (const sheetName of workbook.SheetNames) {
+    const sheet = workbook.Sheets[sheetName];
+    const textRows = readSheetRows(sheet, getCellText);
+    if (textRows.some(row => hasRequiredHeaders(row, schema))) {
+      return readSheetRows(sheet, getCellHtml);
+    }
+  }
+
+  throw new Error(`Could not find a sheet with the required headers: ${formatRequiredHeaders(schema)}.`);
+};
+
+const detectCsvDelimiter = (firstLine: string): string => {
+  // Excel exports use ';' (or tab) in locales where ',' is the decimal separator.
+  const candidates = [',', ';', '\t'];
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of candidates) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+/**
+ * RFC 4180 style CSV parsing: quoted fields may contain delimiters, doubled quotes and line breaks.
+ */
+const parseCsvRows = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+export const parseCsvString = (csvString: string, schema: ColumnSchema = DEFAULT_COLUMN_SCHEMA): any[][] => {
+  const text = csvString.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const rows = parseCsvRows(text, detectCsvDelimiter(firstLine));
+
+  if (!rows.some(row => hasRequiredHeaders(row, schema))) {
+    throw new Error(`Could not find a header row with the required headers: ${formatRequiredHeaders(schema)}.`);
+  }
+  return rows.map(row => row.map(plainTextToCellHtml));
+};
+
+/**
+ * Word saves "Web Page" and "Single File Web Page" documents with a .doc extension when asked to;
+ * those are read, while binary Word documents are not.
+ */
+const readDocHtml = (data: ArrayBuffer | Uint8Array, encoding: string): DecodedText => {
+  if (isWebArchive(data)) {
+    return extractWebArchiveHtml(data, encoding);
+  }
+  const head = bytesToBinaryString((data instanceof Uint8Array ? data : new Uint8Array(data)).subarray(0, 4096));
+  if (/<(?:html|table)\b/i.test(head)) {
+    return decodeText(data, encoding);
+  }
+  throw new Error("This .doc file is a binary Word document. Save it from Word as a Web Page (.htm) or Single File Web Page (.mht) and upload that.");
+};
+
+const parseByFormat = (
+  fileName: string,
+  data: ArrayBuffer | Uint8Array,
+  schema: ColumnSchema,
+  encoding: string,
+  diagnostics: ParseDiagnostics
+): any[][] => {
+  const readText = (decoded: DecodedText): string => {
+    diagnostics.encoding = { encoding: decoded.encoding, source: decoded.source };
+    return decoded.text;
+  };
+  switch (detectFileFormat(fileName)) {
+    case 'html':
+      return parseHtmlString(readText(decodeText(data, encoding)), schema, diagnostics.repairs);
+    case 'mht':
+      return parseHtmlString(readText(extractWebArchiveHtml(data, encoding)), schema, diagnostics.repairs);
+    case 'doc':
+      return parseHtmlString(readText(readDocHtml(data, encoding)), schema, diagnostics.repairs);
+    case 'xlsx':
+      return parseXlsxBuffer(data, schema);
+    case 'csv':
+      return parseCsvString(readText(decodeText(data, encoding)), schema);
+    default:
+      throw new Error(`Unsupported file type. Please upload one of: ${SUPPORTED_FILE_EXTENSIONS.join(', ')}.`);
+  }
+};
+
+/**
+ * Parses the raw bytes of any supported test case file into rows of cell HTML,
+ * choosing the parser from the file extension. Text files are decoded with `encoding`,
+ * or the one they declare when it is "auto". The cells are sanitized here, once, so
+ * everything downstream can render them: what was removed is logged as a warning.
+ * Pass `diagnostics` to collect the encoding used, the repaired rows and the removals.
+ */
+export const parseTestCaseContent = (
+  fileName: string,
+  data: ArrayBuffer | Uint8Array,
+  schema: ColumnSchema = DEFAULT_COLUMN_SCHEMA,
+  encoding: string = AUTO_ENCODING,
+  diagnostics: ParseDiagnostics = createParseDiagnostics(fileName)
+): any[][] => {
+  const rows = sanitizeTable(parseByFormat(fileName, data, schema, encoding, diagnostics), diagnostics.removed);
+  logSanitizeReport(fileName, diagnostics.removed);
+  return rows;
+};
+
+export const parseTestCaseFile = (
+  file: File,
+  schema: ColumnSchema = DEFAULT_COLUMN_SCHEMA,
+  encoding: string = AUTO_ENCODING,
+  diagnostics?: ParseDiagnostics
+): Promise<any[][]> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
 
@@ -7,42 +421,9 @@ export const parseHtmlFile = (file: File): Promise<any[][]> => {
         return reject(new Error("Failed to read file."));
       }
       try {
-        const htmlString = event.target.result as string;
-        const parser = new DOMParser();
-        const doc = parser.parseFromString(htmlString, 'text/html');
-        
-        const tables = doc.querySelectorAll('table');
-        if (tables.length === 0) {
-            return reject(new Error("No tables found in the HTML file."));
-        }
-
-        const requiredHeaders = ["Step Order", "Procedure", "Expected Outcome"];
-        let targetTable: HTMLTableElement | null = null;
-        
-        for (const table of tables) {
-            const headerRow = table.querySelector('tr');
-            if (headerRow) {
-                const headers = Array.from(headerRow.querySelectorAll('th, td')).map(cell => cell.textContent?.trim() || '');
-                if (requiredHeaders.every(h => headers.includes(h))) {
-                    targetTable = table;
-                    break;
-                }
-            }
-        }
-
-        if (!targetTable) {
-            return reject(new Error(`Could not find a table with the required headers: "${requiredHeaders.join(', ')}".`));
-        }
-        
-        const rows = Array.from(targetTable.querySelectorAll('tr'));
-        const tableData = rows.map(row => 
-            Array.from(row.children).map(cell => (cell as HTMLElement).innerHTML || "")
-        );
-        
-        resolve(tableData);
-
+        resolve(parseTestCaseContent(file.name, event.target.result as ArrayBuffer, schema, encoding, diagnostics));
       } catch (error) {
-        reject(new Error("Error parsing HTML file. Please ensure it's a valid .html file."));
+        reject(error);
       }
     };
 
@@ -50,6 +431,6 @@ export const parseHtmlFile = (file: File): Promise<any[][]> => {
       reject(new Error("Error reading file: " + error));
     };
 
-    reader.readAsText(file);
+    reader.readAsArrayBuffer(file);
   });
-};
\ No newline at end of file
+};
@@ -0,0 +1,158 @@
+import { RowData } from '../types';
+import { parseHtmlDocument } from './dom';
+
+/** What the sanitizer removed, counted by kind, e.g. { "<script> elements": 2, "onclick event handlers": 5 }. */
+export type SanitizeReport = Record<string, number>;
+
+// Formatting that test cases use; everything else is unwrapped (its text kept) or dropped.
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'b', 'big', 'blockquote', 'br', 'caption', 'center', 'cite', 'code', 'col', 'colgroup', 'dd', 'del',
+  'div', 'dl', 'dt', 'em', 'font', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img', 'ins', 'li', 'mark', 'ol',
+  'p', 'pre', 'q', 's', 'small', 'span', 'strike', 'strong', 'sub', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th',
+  'thead', 'tr', 'u', 'ul',
+]);
+
+// Elements whose content is code, embedded documents or controls rather than text of the test case.
+const DROPPED_TAGS = new Set([
+  'applet', 'audio', 'base', 'button', 'canvas', 'embed', 'form', 'frame', 'frameset', 'head', 'iframe', 'input',
+  'link', 'math', 'meta', 'noembed', 'noscript', 'object', 'option', 'portal', 'script', 'select', 'source', 'style',
+  'svg', 'template', 'textarea', 'title', 'track', 'video', 'xml',
+]);
+
+const GLOBAL_ATTRIBUTES = new Set(['style', 'title', 'dir']);
+const TAG_ATTRIBUTES: Record<string, Set<string>> = {
+  a: new Set(['href']),
+  img: new Set(['src', 'alt', 'width', 'height']),
+  table: new Set(['border', 'cellpadding', 'cellspacing', 'width']),
+  td: new Set(['colspan', 'rowspan', 'align', 'valign', 'width']),
+  th: new Set(['colspan', 'rowspan', 'align', 'valign', 'width']),
+  col: new Set(['span', 'width']),
+  colgroup: new Set(['span', 'width']),
+  ol: new Set(['start', 'type', 'reversed']),
+  ul: new Set(['type']),
+  li: new Set(['value', 'type']),
+  font: new Set(['face', 'size', 'color']),
+  p: new Set(['align']),
+  div: new Set(['align']),
+};
+
+const ALLOWED_STYLE_PROPERTIES = new Set([
+  'background-color', 'color', 'font-family', 'font-size', 'font-style', 'font-weight', 'list-style-type',
+  'margin-left', 'padding-left', 'text-align', 'text-decoration', 'text-decoration-line', 'text-indent',
+  'vertical-align', 'white-space',
+]);
+const UNSAFE_STYLE_VALUE = /url\s*\(|expression\s*\(|javascript:|@import|\\/i;
+
+const SAFE_LINK = /^\s*(?:https?:|mailto:|#)/i;
+// Images are only kept when they are part of the file; remote ones would be fetched on display.
+const INLINE_IMAGE = /^\s*data:image\/(?:png|gif|jpe?g|webp|bmp);base64,/i;
+const REMOTE_URL = /^\s*(?:[a-z][a-z0-9+.-]*:|\/\/)/i;
+
+const count = (report: SanitizeReport, kind: string) => {
+  report[kind] = (report[kind] ?? 0) + 1;
+};
+
+/** Keeps the declarations of a style attribute that only change how text looks. */
+const sanitizeStyle = (style: string, report: SanitizeReport): string => {
+  return style
+    .split(';')
+    .map(declaration => declaration.trim())
+    .filter(declaration => {
+      if (!declaration) return false;
+      const property = declaration.slice(0, declaration.indexOf(':')).trim().toLowerCase();
+      const value = declaration.slice(declaration.indexOf(':') + 1);
+      if (declaration.includes(':') && ALLOWED_STYLE_PROPERTIES.has(property) && !UNSAFE_STYLE_VALUE.test(value)) return true;
+      count(report, 'style properties');
+      return false;
+    })
+    .join('; ');
+};
+
+const sanitizeAttributes = (element: Element, tag: string, report: SanitizeReport) => {
+  for (const { name, value } of Array.from(element.attributes)) {
+    const attribute = name.toLowerCase();
+    if (!GLOBAL_ATTRIBUTES.has(attribute) && !TAG_ATTRIBUTES[tag]?.has(attribute)) {
+      element.removeAttribute(name);
+      count(report, attribute.startsWith('on') ? `${attribute} event handlers` : `${attribute} attributes`);
+    } else if (attribute === 'style') {
+      const style = sanitizeStyle(value, report);
+      if (style) element.setAttribute(name, style);
+      else element.removeAttribute(name);
+    } else if (attribute === 'href' && !SAFE_LINK.test(value)) {
+      element.removeAttribute(name);
+      count(report, 'unsafe links');
+    }
+  }
+};
+
+const sanitizeChildren = (parent: Node, report: SanitizeReport) => {
+  for (const node of Array.from(parent.childNodes)) {
+    if (node.nodeType === 8) { // Comment, including Word's conditional comments
+      node.parentNode?.removeChild(node);
+      count(report, 'comments');
+      continue;
+    }
+    if (node.nodeType !== 1) continue;
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    if (DROPPED_TAGS.has(tag)) {
+      element.parentNode?.removeChild(element);
+      count(report, `<${tag}> elements`);
+      continue;
+    }
+    if (tag === 'img' && !INLINE_IMAGE.test(element.getAttribute('src') ?? '')) {
+      element.parentNode?.removeChild(element);
+      count(report, REMOTE_URL.test(element.getAttribute('src') ?? '') ? 'remote images' : 'images without an inline source');
+      continue;
+    }
+
+    sanitizeChildren(element, report);
+    if (ALLOWED_TAGS.has(tag)) {
+      sanitizeAttributes(element, tag, report);
+    } else {
+      // Unknown wrappers such as Word's <o:p> go, their text stays.
+      while (element.firstChild) element.parentNode?.insertBefore(element.firstChild, element);
+      element.parentNode?.removeChild(element);
+      count(report, `<${tag}> tags (text kept)`);
+    }
+  }
+};
+
+/**
+ * Returns a function that cleans cell HTML against the allowlist, adding what it removed to `report`.
+ * Cells are parsed in a document made by DOMParser, which runs no scripts and loads no images.
+ */
+export const createCellSanitizer = (report: SanitizeReport): ((html: string) => string) => {
+  let container: HTMLElement | null = null;
+  return (html: string) => {
+    if (!html.includes('<')) return html;
+    container ??= parseHtmlDocument('<!DOCTYPE html><html><body></body></html>').body;
+    container.innerHTML = html;
+    sanitizeChildren(container, report);
+    return container.innerHTML;
+  };
+};
+
+/** Cleans every cell of a parsed table. Cells that are not strings are left as they are. */
+export const sanitizeTable = (rows: any[][], report: SanitizeReport): any[][] => {
+  const sanitize = createCellSanitizer(report);
+  return rows.map(row => row.map(cell => (typeof cell === 'string' ? sanitize(cell) : cell)));
+};
+
+/** Cleans the cells of a row keyed by column, such as the rows saved in sessions and patches. */
+export const sanitizeRow = (row: RowData, sanitize: (html: string) => string): RowData => {
+  return Object.fromEntries(Object.entries(row).map(([column, value]) => [column, typeof value === 'string' ? sanitize(value) : value]));
+};
+
+export const formatSanitizeReport = (report: SanitizeReport): string => {
+  return Object.entries(report)
+    .sort(([, a], [, b]) => b - a)
+    .map(([kind, total]) => `${total} ${kind}`)
+    .join(', ');
+};
+
+export const logSanitizeReport = (source: string, report: SanitizeReport): void => {
+  if (Object.keys(report).length === 0) return;
+  console.warn(`Removed from ${source}: ${formatSanitizeReport(report)}.`);
+};
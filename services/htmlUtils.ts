@@ -0,0 +1,74 @@
+import { createScratchElement } from './dom';
+
+/**
+ * Strips inline color styles and <font color> attributes from an HTML string 
+ * to ensure app-defined CSS controls text color for readability.
+ * @param htmlString The HTML content string.
+ * @returns The sanitized HTML string.
+ */
+export const stripColorStyles = (htmlString: string): string => {
+  if (typeof htmlString !== 'string' || !htmlString) return '';
+
+  try {
+    const tempDiv = createScratchElement();
+    tempDiv.innerHTML = htmlString;
+  
+    const elements = tempDiv.querySelectorAll('*');
+  
+    elements.forEach(el => {
+      // Duck-typed rather than `instanceof HTMLElement` so this also works with a Node DOM stand-in.
+      const style = (el as HTMLElement).style;
+      if (style && style.color) {
+        style.removeProperty('color');
+      }
+      if (el.tagName.toLowerCase() === 'font' && el.hasAttribute('color')) {
+        el.removeAttribute('color');
+      }
+      if (el.getAttribute('style') === '') {
+          el.removeAttribute('style');
+      }
+    });
+  
+    return tempDiv.innerHTML;
+  } catch (e) {
+    console.error("Could not strip styles from html string", htmlString, e);
+    return htmlString; // Return original string on error
+  }
+};
+
+const TAG_PATTERN = /<!--[\s\S]*?-->|<(?:[^>"']|"[^"]*"|'[^']*')*>/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+};
+
+/**
+ * Text content of an HTML fragment without going through the DOM, so it also works inside a Web Worker.
+ * Cell HTML is either serialized by the browser's parser or produced by escapeHtml, which only emit the
+ * entities handled here, so the result matches `element.textContent`.
+ */
+export const htmlToText = (htmlString: string): string => {
+  return htmlString
+    .replace(TAG_PATTERN, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+      if (name[0] === '#') {
+        const codePoint = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+      }
+      return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    });
+};
+
+export const escapeHtml = (text: string): string => {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
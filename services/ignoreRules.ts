@@ -0,0 +1,192 @@
+import { IgnoreRule } from '../types';
+import { compilePattern, isRegexPattern } from './categoryRules';
+import { isRecord } from './jsonData';
+
+// Volatile text that often changes between revisions without changing the test.
+export const IGNORE_RULE_PRESETS: IgnoreRule[] = [
+  { name: 'Version numbers', pattern: '/\\bv?\\d+(?:\\.\\d+){1,3}\\b/i', enabled: true },
+  { name: 'Build numbers', pattern: '/\\bbuild\\s*(?:no\\.?|number|#)?\\s*:?\\s*\\d+\\b/i', enabled: true },
+  { name: 'Firmware versions', pattern: '/\\b(?:fw|firmware)(?:\\s*(?:version|ver\\.?))?\\s*:?\\s*v?\\d[\\w.-]*/i', enabled: true },
+  { name: 'Dates', pattern: '/\\b\\d{4}[-/.]\\d{1,2}[-/.]\\d{1,2}\\b|\\b\\d{1,2}[-/.]\\d{1,2}[-/.]\\d{2,4}\\b|\\d{4}年\\d{1,2}月\\d{1,2}日/', enabled: true },
+  { name: 'Times', pattern: '/\\b\\d{1,2}:\\d{2}(?::\\d{2})?(?:\\s?[AP]M)?\\b/i', enabled: true },
+  { name: 'Tester initials', pattern: '/\\b(?:[Tt]ested by|[Tt]ester|[Ii]nitials)\\s*[:：]?\\s*[A-Z]{2,4}\\b/', enabled: true },
+];
+
+const STORAGE_PREFIX = 'tc-comparator.ignore-rules.';
+const PROJECT_STORAGE_KEY = 'tc-comparator.ignore-rules-project';
+export const DEFAULT_PROJECT = 'Default';
+
+const RULES_FILE_FORMAT = 'tc-comparator-ignore-rules';
+const RULES_FILE_VERSION = 1;
+export const RULES_FILE_EXTENSION = '.tcrules.json';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const compiledRules = new Map<string, RegExp | null>();
+
+/** A rule's pattern as a global expression: text matches itself, /expression/flags as written. */
+const compileRule = (pattern: string): RegExp | null => {
+  if (!compiledRules.has(pattern)) {
+    const regex = isRegexPattern(pattern) ? compilePattern(pattern) : pattern ? new RegExp(escapeRegExp(pattern)) : null;
+    compiledRules.set(pattern, regex && new RegExp(regex.source, `${regex.flags}g`));
+  }
+  return compiledRules.get(pattern) ?? null;
+};
+
+export const isValidIgnoreRule = (rule: IgnoreRule): boolean => !!compileRule(rule.pattern);
+
+/** The rules that are switched on and compile. */
+export const getActiveIgnoreRules = (rules: IgnoreRule[]): IgnoreRule[] =>
+  rules.filter(rule => rule.enabled && isValidIgnoreRule(rule));
+
+export interface IgnoredText {
+  text: string;
+  /** The rule that matched the text; absent for text between matches. */
+  rule?: IgnoreRule;
+}
+
+/**
+ * Splits text into the parts the rules match and the text between them. Where matches overlap,
+ * the one that starts first wins, then the rule listed first.
+ */
+export const splitIgnoredText = (text: string, rules: IgnoreRule[]): IgnoredText[] => {
+  const matches: Array<{ start: number; end: number; rule: IgnoreRule }> = [];
+  getActiveIgnoreRules(rules).forEach(rule => {
+    for (const match of text.matchAll(compileRule(rule.pattern)!)) {
+      if (match[0]) matches.push({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length, rule });
+    }
+  });
+  if (matches.length === 0) return [{ text }];
+
+  matches.sort((a, b) => a.start - b.start);
+  const parts: IgnoredText[] = [];
+  let position = 0;
+  for (const match of matches) {
+    if (match.start < position) continue;
+    if (match.start > position) parts.push({ text: text.slice(position, match.start) });
+    parts.push({ text: text.slice(match.start, match.end), rule: match.rule });
+    position = match.end;
+  }
+  if (position < text.length) parts.push({ text: text.slice(position) });
+  return parts;
+};
+
+/** Plain text without what the rules match, for comparing rows by their wording. */
+export const removeIgnoredText = (text: string, rules: IgnoreRule[]): string =>
+  splitIgnoredText(text, rules).map(part => (part.rule ? ' ' : part.text)).join('');
+
+const TAG_PATTERN = /<(?:[^>"']|"[^"]*"|'[^']*')*>/g;
+
+/** What each rule matches in the text of a cell, leaving tags and their attributes out. */
+const getMatchedTexts = (html: string, rules: IgnoreRule[]): Map<IgnoreRule, string[]> => {
+  const matched = new Map<IgnoreRule, string[]>();
+  html.split(TAG_PATTERN).forEach(text => {
+    splitIgnoredText(text, rules).forEach(part => {
+      if (part.rule) matched.set(part.rule, [...(matched.get(part.rule) ?? []), part.text]);
+    });
+  });
+  return matched;
+};
+
+/**
+ * Adds one to the count of every rule whose matches differ between two versions of a cell: a
+ * difference the rule kept from being highlighted or from marking the row MODIFIED.
+ */
+export const countSuppressedDifferences = (originalHtml: string, revisedHtml: string, rules: IgnoreRule[], counts: number[]): void => {
+  if (originalHtml === revisedHtml) return;
+  const original = getMatchedTexts(originalHtml, rules);
+  const revised = getMatchedTexts(revisedHtml, rules);
+  rules.forEach((rule, index) => {
+    const before = original.get(rule) ?? [];
+    const after = revised.get(rule) ?? [];
+    if (before.length !== after.length || before.some((text, position) => text !== after[position])) {
+      counts[index] = (counts[index] ?? 0) + 1;
+    }
+  });
+};
+
+/** "Version numbers: 12, Dates: 3" for the rules that hid a difference; null when none did. */
+export const describeSuppressedDifferences = (rules: IgnoreRule[], counts: number[] | undefined): string | null => {
+  const entries = rules
+    .map((rule, index) => ({ name: rule.name || rule.pattern, count: counts?.[index] ?? 0 }))
+    .filter(entry => entry.count > 0);
+  return entries.length > 0 ? entries.map(entry => `${entry.name}: ${entry.count}`).join(', ') : null;
+};
+
+const isIgnoreRule = (value: unknown): value is IgnoreRule =>
+  isRecord(value) && typeof value.name === 'string' && typeof value.pattern === 'string' && typeof value.enabled === 'boolean';
+
+/** Keeps the well-formed rules of a value read from a file or from storage. */
+export const readIgnoreRules = (value: unknown): IgnoreRule[] =>
+  Array.isArray(value)
+    ? value.filter(isIgnoreRule).map(({ name, pattern, enabled }) => ({ name, pattern, enabled }))
+    : [];
+
+export const loadProjectNames = (): string[] => {
+  const names = new Set([DEFAULT_PROJECT]);
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(STORAGE_PREFIX)) names.add(key.slice(STORAGE_PREFIX.length));
+    }
+  } catch {
+    // Storage is unavailable; only the default project exists.
+  }
+  return [...names].sort((a, b) => a.localeCompare(b));
+};
+
+export const loadCurrentProject = (): string => {
+  try {
+    return localStorage.getItem(PROJECT_STORAGE_KEY) || DEFAULT_PROJECT;
+  } catch {
+    return DEFAULT_PROJECT;
+  }
+};
+
+export const saveCurrentProject = (project: string): void => {
+  try {
+    localStorage.setItem(PROJECT_STORAGE_KEY, project);
+  } catch (e) {
+    console.warn("Could not save the project:", e);
+  }
+};
+
+export const loadIgnoreRules = (project: string): IgnoreRule[] => {
+  try {
+    return readIgnoreRules(JSON.parse(localStorage.getItem(`${STORAGE_PREFIX}${project}`) ?? '[]'));
+  } catch (e) {
+    console.warn("Ignoring unreadable saved ignore rules:", e);
+    return [];
+  }
+};
+
+export const saveIgnoreRules = (project: string, rules: IgnoreRule[]): void => {
+  try {
+    localStorage.setItem(`${STORAGE_PREFIX}${project}`, JSON.stringify(rules));
+  } catch (e) {
+    console.warn("Could not save the ignore rules:", e);
+  }
+};
+
+export const serializeIgnoreRules = (project: string, rules: IgnoreRule[]): string =>
+  JSON.stringify({ format: RULES_FILE_FORMAT, version: RULES_FILE_VERSION, project, rules }, null, 2);
+
+/** Reads an exported rules file. Rules whose pattern does not compile are kept, switched off. */
+export const parseIgnoreRulesFile = (json: string): { project: string; rules: IgnoreRule[] } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!isRecord(data) || data.format !== RULES_FILE_FORMAT) {
+    throw new Error("The file is not an exported set of ignore rules.");
+  }
+  if (typeof data.version !== 'number' || data.version > RULES_FILE_VERSION) {
+    throw new Error("The rules were exported by a newer version of the app.");
+  }
+  return {
+    project: typeof data.project === 'string' && data.project.trim() ? data.project.trim() : DEFAULT_PROJECT,
+    rules: readIgnoreRules(data.rules).map(rule => (isValidIgnoreRule(rule) ? rule : { ...rule, enabled: false })),
+  };
+};
@@ -0,0 +1,8 @@
+/**
+ * Type guards for reading JSON that comes from outside the app: saved files and model answers.
+ * Parsed values start out as `unknown` and are narrowed with these before use.
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
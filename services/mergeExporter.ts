@@ -0,0 +1,72 @@
+import { MergeStatus, RowData, ThreeWayResult } from '../types';
+import { escapeHtml } from './htmlUtils';
+
+export interface MergedHtmlOptions {
+  result: ThreeWayResult;
+  baseFileName: string;
+  versionAFileName: string;
+  versionBFileName: string;
+}
+
+const MERGE_STYLES = `
+  body { font-family: ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; color: #1f2937; margin: 0; padding: 32px; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  .meta { color: #6b7280; font-size: 13px; margin-bottom: 24px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #d1d5db; padding: 8px 10px; font-size: 13px; vertical-align: top; text-align: left; }
+  th { background: #f3f4f6; }
+  tr.conflict-marker td { background: #fee2e2; color: #991b1b; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-weight: 700; }
+  tr.conflict-side td { background: #fef2f2; }
+`;
+
+const renderCells = (row: RowData, headers: string[]): string => headers.map(header => `<td>${row[header] ?? ''}</td>`).join('');
+
+const renderMarker = (text: string, columnCount: number): string =>
+  `<tr class="conflict-marker"><td colspan="${columnCount}">${escapeHtml(text)}</td></tr>`;
+
+/**
+ * Builds the merged test case as an HTML table the app can parse again. Conflicting steps are written
+ * as both versions between Git-style markers, so they can be found and resolved by hand before the
+ * file is used.
+ */
+export const buildMergedHtml = ({ result, baseFileName, versionAFileName, versionBFileName }: MergedHtmlOptions): string => {
+  const { headers, rows } = result;
+  const conflictCount = rows.filter(row => row.status === MergeStatus.CONFLICT).length;
+
+  const bodyRows = rows.flatMap(row => {
+    if (row.status !== MergeStatus.CONFLICT) {
+      return row.merged ? [`<tr>${renderCells(row.merged, headers)}</tr>`] : [];
+    }
+    const renderSide = (sideRow: RowData | null, fileName: string) => sideRow
+      ? `<tr class="conflict-side">${renderCells(sideRow, headers)}</tr>`
+      : renderMarker(`(step deleted in ${fileName})`, headers.length);
+    return [
+      renderMarker(`<<<<<<< ${versionAFileName}`, headers.length),
+      renderSide(row.a, versionAFileName),
+      renderMarker('=======', headers.length),
+      renderSide(row.b, versionBFileName),
+      renderMarker(`>>>>>>> ${versionBFileName}`, headers.length),
+    ];
+  });
+
+  const title = `Merged test case: ${escapeHtml(versionAFileName)} + ${escapeHtml(versionBFileName)}`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${title}</title>
+<style>${MERGE_STYLES}</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="meta">Base: ${escapeHtml(baseFileName)}. ${conflictCount === 0 ? 'No conflicts.' : `${conflictCount} conflict${conflictCount === 1 ? '' : 's'} marked with &lt;&lt;&lt;&lt;&lt;&lt;&lt; / &gt;&gt;&gt;&gt;&gt;&gt;&gt; rows must be resolved by hand.`}</p>
+<table>
+<thead><tr>${headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>
+<tbody>
+${bodyRows.join('\n')}
+</tbody>
+</table>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,124 @@
+/**
+ * Myers' O(ND) difference algorithm in its linear-space form: the middle snake of the edit graph
+ * is found by searching from both ends at once, and the two halves on either side of it are
+ * diffed recursively. Running time grows with the number of differences D rather than with the
+ * product of the input lengths, so nearly identical documents are compared in close to linear time.
+ *
+ * Elements are addressed by index and compared with `equals`, so callers can match rows or
+ * words by whatever notion of equality they need.
+ */
+export type IndexEquals = (originalIndex: number, revisedIndex: number) => boolean;
+
+/**
+ * Returns the index pairs of a longest common subsequence, in ascending order.
+ */
+export const findCommonSubsequence = (originalLength: number, revisedLength: number, equals: IndexEquals): Array<[number, number]> => {
+  const matches: Array<[number, number]> = [];
+  diffRange(0, originalLength, 0, revisedLength, equals, matches);
+  return matches;
+};
+
+const diffRange = (
+  originalStart: number,
+  originalEnd: number,
+  revisedStart: number,
+  revisedEnd: number,
+  equals: IndexEquals,
+  matches: Array<[number, number]>
+): void => {
+  // Common prefix and suffix are matched directly; only the differing middle needs the search.
+  const prefix: Array<[number, number]> = [];
+  while (originalStart < originalEnd && revisedStart < revisedEnd && equals(originalStart, revisedStart)) {
+    prefix.push([originalStart++, revisedStart++]);
+  }
+  const suffix: Array<[number, number]> = [];
+  while (originalStart < originalEnd && revisedStart < revisedEnd && equals(originalEnd - 1, revisedEnd - 1)) {
+    suffix.unshift([--originalEnd, --revisedEnd]);
+  }
+
+  matches.push(...prefix);
+  if (originalStart < originalEnd && revisedStart < revisedEnd) {
+    const split = findMiddleSnake(originalStart, originalEnd, revisedStart, revisedEnd, equals);
+    if (split) {
+      diffRange(originalStart, split[0], revisedStart, split[1], equals, matches);
+      diffRange(split[0], originalEnd, split[1], revisedEnd, equals, matches);
+    }
+  }
+  matches.push(...suffix);
+};
+
+/**
+ * Finds the point where the forward and reverse searches overlap. Returns null when the two
+ * ranges have nothing in common.
+ */
+const findMiddleSnake = (
+  originalStart: number,
+  originalEnd: number,
+  revisedStart: number,
+  revisedEnd: number,
+  equals: IndexEquals
+): [number, number] | null => {
+  const n = originalEnd - originalStart;
+  const m = revisedEnd - revisedStart;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  const size = 2 * maxD + 2;
+  const forward = new Int32Array(size).fill(-1);
+  const reverse = new Int32Array(size).fill(-1);
+  forward[offset + 1] = 0;
+  reverse[offset + 1] = 0;
+
+  const delta = n - m;
+  // With an odd delta the paths can only meet while extending forward, otherwise while extending in reverse.
+  const checkOnForward = delta % 2 !== 0;
+  let forwardStartTrim = 0, forwardEndTrim = 0, reverseStartTrim = 0, reverseEndTrim = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    for (let k = -d + forwardStartTrim; k <= d - forwardEndTrim; k += 2) {
+      const index = offset + k;
+      let x = k === -d || (k !== d && forward[index - 1] < forward[index + 1]) ? forward[index + 1] : forward[index - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && equals(originalStart + x, revisedStart + y)) {
+        x++;
+        y++;
+      }
+      forward[index] = x;
+      if (x > n) {
+        forwardEndTrim += 2;
+      } else if (y > m) {
+        forwardStartTrim += 2;
+      } else if (checkOnForward) {
+        const reverseIndex = offset + delta - k;
+        if (reverseIndex >= 0 && reverseIndex < size && reverse[reverseIndex] !== -1 && x >= n - reverse[reverseIndex]) {
+          return [originalStart + x, revisedStart + y];
+        }
+      }
+    }
+
+    for (let k = -d + reverseStartTrim; k <= d - reverseEndTrim; k += 2) {
+      const index = offset + k;
+      let x = k === -d || (k !== d && reverse[index - 1] < reverse[index + 1]) ? reverse[index + 1] : reverse[index - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && equals(originalEnd - x - 1, revisedEnd - y - 1)) {
+        x++;
+        y++;
+      }
+      reverse[index] = x;
+      if (x > n) {
+        reverseEndTrim += 2;
+      } else if (y > m) {
+        reverseStartTrim += 2;
+      } else if (!checkOnForward) {
+        const forwardIndex = offset + delta - k;
+        if (forwardIndex >= 0 && forwardIndex < size && forward[forwardIndex] !== -1) {
+          const forwardX = forward[forwardIndex];
+          const forwardY = offset + forwardX - forwardIndex;
+          if (forwardX >= n - x) {
+            return [originalStart + forwardX, revisedStart + forwardY];
+          }
+        }
+      }
+    }
+  }
+  return null;
+};
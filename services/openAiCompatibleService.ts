@@ -0,0 +1,32 @@
+import { SummaryProviderConfig } from "../types";
+import type { SummaryProvider } from "./summaryProviders";
+
+/**
+ * Any server that speaks the OpenAI chat completions API: OpenAI itself, or a local
+ * llama.cpp / Ollama / LM Studio server for machines without internet access.
+ */
+export const createOpenAiCompatibleProvider = ({ baseUrl, apiKey, model }: SummaryProviderConfig): SummaryProvider => ({
+  generate: async (prompt, options) => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        ...(options?.json ? { response_format: { type: 'json_object' } } : {}),
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`The summary server answered ${response.status} ${response.statusText}`);
+    }
+    const data = await response.json();
+    const text = data?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new Error("The summary server returned no message.");
+    }
+    return text.trim();
+  },
+});
@@ -0,0 +1,207 @@
+import { CellChange, ComparisonPatch, HunkResult, PatchAnchor, PatchOperation, RowData } from '../types';
+import { CATEGORY_TITLE_COLUMN, DEFAULT_COLUMN_SCHEMA } from './columnSchema';
+import { getCleanTextContent, isCategoryRow, processRawData, TableColumns } from './comparisonEngine';
+import { describeAnchor, getAnchorValue } from './comparisonPatch';
+import { escapeHtml } from './htmlUtils';
+
+export interface ApplyPatchOptions {
+  /**
+   * Apply a hunk only where the row still has the text the patch was made from. Turning this off
+   * lets a patch overwrite copies whose wording differs, such as translations.
+   */
+  verifyContent: boolean;
+  headerAliases?: Record<string, string>;
+}
+
+export interface PatchApplication {
+  headers: string[];
+  rows: RowData[];
+  hunks: HunkResult[];
+}
+
+const normalize = (html: unknown) => getCleanTextContent(String(html ?? '')).replace(/\s+/g, ' ');
+
+const hasText = (row: RowData, column: string, html: string) => normalize(row[column]) === normalize(html);
+
+const normalizeHtml = (html: unknown) => String(html ?? '').replace(/\s+/g, ' ').trim();
+
+/**
+ * True when the row already has what a change writes. A change that keeps the text and only changes its
+ * formatting is compared by its HTML, as the text alone would always match.
+ */
+const hasChange = (row: RowData, column: string, change: CellChange) =>
+  normalize(change.from) === normalize(change.to)
+    ? normalizeHtml(row[column]) === normalizeHtml(change.to)
+    : hasText(row, column, change.to);
+
+/**
+ * Applies a patch to the parsed table of another copy of the original document. Hunks are applied in
+ * order and independently: one that fails is reported and the rest still go in.
+ */
+export const applyPatch = (rawData: any[][], patch: ComparisonPatch, options: ApplyPatchOptions): PatchApplication => {
+  const schema = {
+    keyColumn: patch.keyColumn,
+    comparedColumns: patch.comparedColumns,
+    headerAliases: options.headerAliases ?? DEFAULT_COLUMN_SCHEMA.headerAliases,
+  };
+  const rows = processRawData(rawData, schema);
+  if (rows.length === 0) {
+    throw new Error("The document has no test steps to patch.");
+  }
+  const headers = Object.keys(rows[0]);
+
+  // Rows are found by what they were in the document before patching, so an earlier hunk that
+  // edits a row does not hide it from later ones. Rows the patch inserts are never targets.
+  const anchors = new Map<RowData, PatchAnchor>();
+  let section = '';
+  rows.forEach(row => {
+    const isCategory = isCategoryRow(row, schema);
+    if (isCategory) section = getCleanTextContent(String(row[CATEGORY_TITLE_COLUMN] ?? ''));
+    anchors.set(row, { value: getAnchorValue(row, patch.keyedBy, schema), isCategory, section });
+  });
+  // Anchor row (null: top of the table) -> the last row this patch placed after it.
+  const lastPlaced = new Map<RowData | null, RowData>();
+
+  const findRow = (anchor: PatchAnchor): RowData | string => {
+    const candidates = rows.filter(row => {
+      const rowAnchor = anchors.get(row);
+      return rowAnchor && rowAnchor.value === anchor.value && rowAnchor.isCategory === anchor.isCategory;
+    });
+    const inSection = candidates.length > 1 ? candidates.filter(row => anchors.get(row)?.section === anchor.section) : candidates;
+    if (inSection.length === 1) return inSection[0];
+    const description = describeAnchor(anchor, patch.keyedBy);
+    return candidates.length === 0
+      ? `Could not find ${description}.`
+      : `Found ${description} ${candidates.length} times${anchor.section ? ` (none or several in "${anchor.section}")` : ''}.`;
+  };
+
+  const place = (row: RowData, after: PatchAnchor | null): string | null => {
+    let anchorRow: RowData | null = null;
+    if (after) {
+      const found = findRow(after);
+      if (typeof found === 'string') return `Could not find where to put the row: ${found.charAt(0).toLowerCase()}${found.slice(1)}`;
+      anchorRow = found;
+    }
+    const previous = lastPlaced.get(anchorRow) ?? anchorRow;
+    rows.splice(previous ? rows.indexOf(previous) + 1 : 0, 0, row);
+    lastPlaced.set(anchorRow, row);
+    return null;
+  };
+
+  /** Null when the changes can be written; otherwise why not. */
+  const checkChanges = (row: RowData, changes: Record<string, CellChange>): string | null => {
+    if (!options.verifyContent) return null;
+    const changed = Object.keys(changes).filter(column => !hasText(row, column, changes[column].from));
+    return changed.length > 0 ? `The text of ${changed.join(', ')} differs from the document the patch was made from.` : null;
+  };
+
+  const writeChanges = (row: RowData, changes: Record<string, CellChange>) => {
+    Object.entries(changes).forEach(([column, { to }]) => { row[column] = to; });
+  };
+
+  const applyOperation = (operation: PatchOperation): Omit<HunkResult, 'index' | 'operation'> => {
+    if (operation.op === 'insert') {
+      const row: RowData = Object.fromEntries(headers.map(header => [header, operation.row[header] ?? '']));
+      const error = place(row, operation.after);
+      return error ? { status: 'failed', message: error } : { status: 'applied' };
+    }
+
+    const target = findRow(operation.target);
+    if (typeof target === 'string') return { status: 'failed', message: target };
+
+    switch (operation.op) {
+      case 'delete': {
+        if (options.verifyContent) {
+          const changed = patch.comparedColumns.filter(column => !hasText(target, column, String(operation.row[column] ?? '')));
+          if (changed.length > 0) {
+            return { status: 'failed', message: `Not deleted: the text of ${changed.join(', ')} differs from the document the patch was made from.` };
+          }
+        }
+        rows.splice(rows.indexOf(target), 1);
+        return { status: 'applied' };
+      }
+      case 'modify': {
+        const columns = Object.keys(operation.changes);
+        if (columns.length > 0 && columns.every(column => hasChange(target, column, operation.changes[column]))) {
+          return { status: 'skipped', message: 'The row already has the new text.' };
+        }
+        const error = checkChanges(target, operation.changes);
+        if (error) return { status: 'failed', message: error };
+        writeChanges(target, operation.changes);
+        return { status: 'applied' };
+      }
+      case 'move': {
+        const error = checkChanges(target, operation.changes);
+        if (error) return { status: 'failed', message: error };
+        const index = rows.indexOf(target);
+        rows.splice(index, 1);
+        const placeError = place(target, operation.after);
+        if (placeError) {
+          rows.splice(index, 0, target);
+          return { status: 'failed', message: placeError };
+        }
+        writeChanges(target, operation.changes);
+        return { status: 'applied' };
+      }
+    }
+  };
+
+  const hunks = patch.operations.map((operation, index) => ({ index, operation, ...applyOperation(operation) }));
+  return { headers, rows, hunks };
+};
+
+/** Describes a hunk in one line for the apply report. */
+export const describeHunk = (operation: PatchOperation, keyedBy: ComparisonPatch['keyedBy'], columns: TableColumns): string => {
+  switch (operation.op) {
+    case 'insert': {
+      const row = operation.row;
+      const label = isCategoryRow(row, columns)
+        ? `category "${getCleanTextContent(String(row[CATEGORY_TITLE_COLUMN] ?? ''))}"`
+        : `step ${getCleanTextContent(String(row[columns.keyColumn] ?? '')) || `"${getAnchorValue(row, 'content', columns)}"`}`;
+      return `Insert ${label} after ${describeAnchor(operation.after, keyedBy)}`;
+    }
+    case 'delete':
+      return `Delete ${describeAnchor(operation.target, keyedBy)}`;
+    case 'modify':
+      return `Change ${Object.keys(operation.changes).join(', ')} of ${describeAnchor(operation.target, keyedBy)}`;
+    case 'move':
+      return `Move ${describeAnchor(operation.target, keyedBy)} after ${describeAnchor(operation.after, keyedBy)}`;
+  }
+};
+
+const PATCHED_STYLES = `
+  body { font-family: ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; color: #1f2937; margin: 0; padding: 32px; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  .meta { color: #6b7280; font-size: 13px; margin-bottom: 24px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #d1d5db; padding: 8px 10px; font-size: 13px; vertical-align: top; text-align: left; }
+  th { background: #f3f4f6; }
+`;
+
+/** The patched test case as an HTML table the app can parse again. */
+export const buildPatchedHtml = ({ headers, rows, hunks }: PatchApplication, documentFileName: string, patch: ComparisonPatch): string => {
+  const failed = hunks.filter(hunk => hunk.status === 'failed').length;
+  const applied = hunks.filter(hunk => hunk.status === 'applied').length;
+  const title = `Patched test case: ${escapeHtml(documentFileName)}`;
+  const bodyRows = rows.map(row => `<tr>${headers.map(header => `<td>${row[header] ?? ''}</td>`).join('')}</tr>`);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${title}</title>
+<style>${PATCHED_STYLES}</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="meta">Patch from ${escapeHtml(patch.source.original)} → ${escapeHtml(patch.source.revised)}: ${applied} of ${hunks.length} hunks applied${failed > 0 ? `, ${failed} failed` : ''}.</p>
+<table>
+<thead><tr>${headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>
+<tbody>
+${bodyRows.join('\n')}
+</tbody>
+</table>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,228 @@
+import { ChangeSummary, ChangeType, ComparisonMode, ComparisonResult, ComparisonRowPair, TextDiffOptions } from '../types';
+import { CategoryLevel, computeDiffSummary, getCategoryLevel, TableColumns } from './comparisonEngine';
+import { escapeHtml, stripColorStyles } from './htmlUtils';
+import { describeSuppressedDifferences } from './ignoreRules';
+import { createDiff, DiffClassNames, DiffType, renderDiffHtml } from './textDiff';
+
+export interface HtmlReportOptions {
+  result: ComparisonResult;
+  /** Left out of the report while it is still being written. */
+  summary: ChangeSummary | null;
+  mode: ComparisonMode;
+  showOnlyChanges: boolean;
+  /** Leaves out modified rows whose words are unchanged. */
+  hideFormattingOnly?: boolean;
+  originalFileName: string;
+  revisedFileName: string;
+  generatedAt?: Date;
+}
+
+// Mirrors the Tailwind classes used by ComparisonResultDisplay so the exported file
+// looks like the on-screen table without needing the app's stylesheet.
+const REPORT_STYLES = `
+  body { font-family: ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; color: #1f2937; background: #f9fafb; margin: 0; padding: 32px; }
+  h1 { font-size: 28px; margin: 0 0 4px; }
+  h2 { font-size: 20px; margin: 0 0 12px; }
+  .meta { color: #6b7280; font-size: 13px; margin-bottom: 24px; }
+  .card { background: #fff; border: 1px solid #e5e7eb; border-radius: 16px; padding: 24px; margin-bottom: 24px; box-shadow: 0 4px 6px -1px rgba(0,0,0,0.05); }
+  .summary { color: #4b5563; line-height: 1.6; white-space: pre-wrap; }
+  .counts { display: flex; gap: 12px; flex-wrap: wrap; margin-bottom: 16px; }
+  .suppressed { color: #4b5563; font-size: 13px; margin: -4px 0 16px; }
+  .count { border-radius: 8px; padding: 8px 14px; font-weight: 600; font-size: 14px; }
+  .count-added { background: #dcfce7; color: #166534; }
+  .count-deleted { background: #fee2e2; color: #991b1b; }
+  .count-modified { background: #fef3c7; color: #92400e; }
+  .count-formatting { background: #fffbeb; color: #b45309; border: 1px solid #fde68a; }
+  .count-moved { background: #ede9fe; color: #5b21b6; }
+  .move-link { display: inline-block; margin-bottom: 4px; padding: 1px 8px; border-radius: 9999px; font-size: 11px; font-weight: 600; background: #ede9fe; color: #5b21b6; border: 1px solid #ddd6fe; text-decoration: none; }
+  .legend { display: flex; flex-wrap: wrap; gap: 8px 16px; font-size: 13px; }
+  .legend span.swatch { display: inline-block; width: 14px; height: 14px; border-radius: 3px; margin-right: 6px; vertical-align: middle; }
+  table { border-collapse: collapse; width: 100%; table-layout: fixed; }
+  th { background: #f3f4f6; color: #4b5563; font-size: 11px; text-transform: uppercase; letter-spacing: 0.05em; text-align: left; padding: 10px 12px; border-right: 1px solid #e5e7eb; }
+  td { font-size: 13px; padding: 10px 12px; border-bottom: 1px solid #e5e7eb; border-right: 1px solid #e5e7eb; vertical-align: top; white-space: pre-wrap; word-wrap: break-word; }
+  td.step { text-align: center; font-weight: 700; vertical-align: middle; }
+  th.step { width: 6%; text-align: center; }
+  tr.row-added { background: rgba(240, 253, 244, 0.7); }
+  tr.row-deleted { background: rgba(254, 242, 242, 0.7); }
+  tr.row-modified { background: rgba(255, 251, 235, 0.7); }
+  tr.row-moved { background: rgba(245, 243, 255, 0.7); }
+  tr.category-primary { background: #4A70A9; color: #fff; }
+  tr.category-sub { background: #31694E; color: #fff; }
+  td.step-modified { background: rgba(254, 243, 199, 0.8); }
+  .formatting-only { display: inline-block; margin-bottom: 4px; padding: 1px 8px; border-radius: 9999px; font-size: 11px; font-weight: 600; background: #fffbeb; color: #b45309; border: 1px solid #fde68a; }
+  .similarity { display: block; margin-top: 4px; font-size: 10px; font-weight: 600; color: #4b5563; white-space: nowrap; }
+  .diff-added { background: #bbf7d0; color: #000; border-radius: 3px; }
+  .diff-deleted { background: rgba(254, 202, 202, 0.6); border-radius: 3px; text-decoration-color: #f87171; }
+  .diff-formatted { background: #e0f2fe; border-radius: 3px; text-decoration: underline dotted #0ea5e9; text-underline-offset: 2px; }
+  .empty { padding: 24px; text-align: center; color: #6b7280; }
+`;
+
+const DIFF_CLASS_NAMES: DiffClassNames = {
+  [DiffType.ADDED]: 'diff-added',
+  [DiffType.DELETED]: 'diff-deleted',
+  [DiffType.FORMATTED]: 'diff-formatted',
+};
+
+const renderTextDiff = (originalHtml: string, revisedHtml: string, options: TextDiffOptions): string => {
+  if (originalHtml === revisedHtml) return revisedHtml;
+  return renderDiffHtml(createDiff(originalHtml, revisedHtml, options), DIFF_CLASS_NAMES);
+};
+
+const getRowClass = (pair: ComparisonRowPair, subCategoryPatterns: string[], columns: TableColumns): string => {
+  switch (getCategoryLevel(pair.original || pair.revised, subCategoryPatterns, columns)) {
+    case CategoryLevel.SUB:
+      return 'category-sub';
+    case CategoryLevel.PRIMARY:
+      return 'category-primary';
+  }
+  switch (pair.status) {
+    case ChangeType.ADDED:
+      return 'row-added';
+    case ChangeType.DELETED:
+      return 'row-deleted';
+    case ChangeType.MODIFIED:
+      return 'row-modified';
+    case ChangeType.MOVED:
+      return 'row-moved';
+    default:
+      return '';
+  }
+};
+
+const getRowAnchor = (key: string | number) => `row-${key}`;
+
+const renderMoveLink = (pair: ComparisonRowPair): string => {
+  if (!pair.move) return '';
+  const { role, counterpartKey, edited } = pair.move;
+  const label = role === 'from' ? 'Moved to new position' : `Moved from old position${edited ? ' (edited)' : ''}`;
+  return `<a class="move-link" href="#${getRowAnchor(counterpartKey)}">${label}</a><br>`;
+};
+
+const renderFormattingBadge = (pair: ComparisonRowPair): string =>
+  pair.modification === 'formatting' ? '<span class="formatting-only">Formatting only</span><br>' : '';
+
+const renderRow = (pair: ComparisonRowPair, mode: ComparisonMode, result: ComparisonResult): string => {
+  const { status, original, revised } = pair;
+  const { keyColumn, comparedColumns, subCategoryPatterns } = result;
+  const isCategory = getCategoryLevel(original || revised, subCategoryPatterns, result) !== null;
+  const showDiff = !isCategory && (status === ChangeType.MODIFIED || (status === ChangeType.MOVED && pair.move?.role === 'to'));
+
+  const originalCells = comparedColumns.map(column => stripColorStyles(original?.[column] ?? ''));
+  const revisedCells = comparedColumns.map(column => stripColorStyles(revised?.[column] ?? ''));
+
+  const contentCells = [
+    ...originalCells.map(cell => `<td>${cell}</td>`),
+    ...revisedCells.map((cell, index) => {
+      const content = showDiff ? renderTextDiff(originalCells[index], cell, result.textDiff) : cell;
+      return `<td>${index === 0 ? renderMoveLink(pair) + renderFormattingBadge(pair) : ''}${content}</td>`;
+    }),
+  ];
+
+  let cells: string[];
+  if (mode === 'step') {
+    const stepRow = pair.move?.role === 'to' ? revised : original ?? revised;
+    const stepOrder = stripColorStyles(stepRow?.[keyColumn] ?? '');
+    cells = [`<td class="step">${stepOrder}</td>`, ...contentCells];
+  } else {
+    const originalStepOrder = stripColorStyles(original?.[keyColumn] ?? '');
+    const revisedStepOrder = stripColorStyles(revised?.[keyColumn] ?? '');
+    const isStepModified = showDiff && originalStepOrder !== revisedStepOrder;
+    const similarityBadge = showDiff && pair.similarity !== undefined
+      ? `<span class="similarity">${Math.round(pair.similarity * 100)}% match</span>`
+      : '';
+    cells = [
+      `<td class="step">${originalStepOrder}</td>`,
+      ...contentCells,
+      `<td class="step${isStepModified ? ' step-modified' : ''}">${revisedStepOrder}${similarityBadge}</td>`,
+    ];
+  }
+
+  return `<tr id="${escapeHtml(getRowAnchor(pair.key))}" class="${getRowClass(pair, subCategoryPatterns, result)}">${cells.join('')}</tr>`;
+};
+
+const renderHeader = (mode: ComparisonMode, keyColumn: string, comparedColumns: string[], originalName: string, revisedName: string): string => {
+  const key = escapeHtml(keyColumn);
+  const columns = [
+    `<th class="step">${key}${mode === 'content' ? `_${originalName}` : ''}</th>`,
+    ...comparedColumns.map(column => `<th>${escapeHtml(column)}_${originalName}</th>`),
+    ...comparedColumns.map(column => `<th>${escapeHtml(column)}_${revisedName}</th>`),
+  ];
+  if (mode === 'content') {
+    columns.push(`<th class="step">${key}_${revisedName}</th>`);
+  }
+  return `<tr>${columns.join('')}</tr>`;
+};
+
+/**
+ * Builds a standalone HTML document of the Detailed Comparison, with every style inlined
+ * so the file can be attached to a ticket and opened offline.
+ */
+export const buildHtmlReport = ({
+  result,
+  summary,
+  mode,
+  showOnlyChanges,
+  hideFormattingOnly = false,
+  originalFileName,
+  revisedFileName,
+  generatedAt = new Date(),
+}: HtmlReportOptions): string => {
+  const { added, deleted, modified, formattingOnly, moved } = computeDiffSummary(result.rows);
+  const { keyColumn, comparedColumns } = result;
+  const suppressed = describeSuppressedDifferences(result.textDiff.ignoreRules, result.suppressedDifferences);
+  const rows = result.rows.filter(p =>
+    (!showOnlyChanges || p.status !== ChangeType.UNCHANGED) && (!hideFormattingOnly || p.modification !== 'formatting')
+  );
+
+  const originalName = escapeHtml(originalFileName);
+  const revisedName = escapeHtml(revisedFileName);
+  const title = `${originalName} vs ${revisedName}`;
+
+  const tableBody = rows.length > 0
+    ? `<table><thead>${renderHeader(mode, keyColumn, comparedColumns, originalName, revisedName)}</thead><tbody>${rows.map(p => renderRow(p, mode, result)).join('')}</tbody></table>`
+    : `<p class="empty">${showOnlyChanges ? 'No changes found.' : 'No data to display.'}</p>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>Test Case Comparison: ${title}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>Test Case Comparison: ${title}</h1>
+<p class="meta">Compared ${mode === 'step' ? `by ${escapeHtml(keyColumn)}` : 'by Content'}${showOnlyChanges ? ', showing only changed rows' : ''}. Generated ${escapeHtml(generatedAt.toLocaleString())}.</p>
+
+${summary ? `<div class="card">
+<h2>${summary.source === 'rules' ? 'Change Summary' : 'AI-Powered Summary'}</h2>
+<p class="summary">${escapeHtml(summary.text)}</p>
+</div>
+
+` : ''}<div class="card">
+<h2>Detailed Comparison</h2>
+<div class="counts">
+<span class="count count-added">${added} added</span>
+<span class="count count-deleted">${deleted} deleted</span>
+<span class="count count-modified">${modified - formattingOnly} text changed</span>
+<span class="count count-formatting">${formattingOnly} formatting only</span>
+<span class="count count-moved">${moved} moved</span>
+</div>
+${suppressed ? `<p class="suppressed">Differences suppressed by ignore rules: ${escapeHtml(suppressed)}</p>
+` : ''}<div class="legend">
+<span><span class="swatch" style="background:#dcfce7;border:1px solid #bbf7d0"></span>Added Row</span>
+<span><span class="swatch" style="background:#fee2e2;border:1px solid #fecaca"></span>Deleted Row</span>
+<span><span class="swatch" style="background:#fef3c7;border:1px solid #fde68a"></span>Modified Row</span>
+<span><span class="swatch" style="background:#ede9fe;border:1px solid #ddd6fe"></span>Moved Row</span>
+<span><span class="diff-added">Added Text</span></span>
+<span><del class="diff-deleted">Deleted Text</del></span>
+<span><span class="diff-formatted">Formatting Changed</span></span>
+</div>
+</div>
+
+<div class="card">
+${tableBody}
+</div>
+</body>
+</html>
+`;
+};
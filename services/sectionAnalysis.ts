@@ -0,0 +1,153 @@
+import { ChangeType, ComparisonResult, ComparisonRowPair, RowData, SectionAnalysis, SummaryProviderConfig } from '../types';
+import { buildChangeNarrative, formatSectionChanges, SectionChanges } from './changeNarrative';
+import { getCleanTextContent } from './comparisonEngine';
+import { isRecord, isStringList } from './jsonData';
+import { getSummaryProvider, SUMMARY_PROVIDER_LABELS } from './summaryProviders';
+
+/** Analyses keyed by `getSectionAnalysisKey`. */
+export type SectionAnalysisMap = Record<string, SectionAnalysis>;
+
+/** Prompt size (in characters of section text) sent in one request; larger revisions take several. */
+const REQUEST_BUDGET = 12000;
+const MAX_CELL_LENGTH = 300;
+const UNTITLED_SECTION = 'Before the first section';
+
+/** Sections are identified by the key of their category row; '' is the part before the first one. */
+export const getSectionAnalysisKey = (sectionKey: string | number | undefined): string => String(sectionKey ?? '');
+
+const clip = (html: unknown): string => {
+  const text = getCleanTextContent(String(html ?? '')).replace(/\s+/g, ' ');
+  return text.length > MAX_CELL_LENGTH ? `${text.slice(0, MAX_CELL_LENGTH)}…` : text;
+};
+
+const describeRow = (pair: ComparisonRowPair, result: ComparisonResult): string[] => {
+  const { keyColumn, comparedColumns } = result;
+  const row: RowData | null = pair.revised ?? pair.original;
+  const label = clip(row?.[keyColumn]) || '(no step number)';
+  const lines = [`[${pair.status}] step ${label}`];
+  comparedColumns.forEach(column => {
+    const before = clip(pair.original?.[column]);
+    const after = clip(pair.revised?.[column]);
+    if (pair.status === ChangeType.ADDED) {
+      if (after) lines.push(`  ${column}: "${after}"`);
+    } else if (pair.status === ChangeType.DELETED) {
+      if (before) lines.push(`  ${column}: "${before}"`);
+    } else if (before !== after) {
+      lines.push(`  ${column}: "${before}" -> "${after}"`);
+    }
+  });
+  return lines;
+};
+
+/** The text of one section, cut to `budget` characters at a row boundary. */
+const describeSection = (id: number, section: SectionChanges, result: ComparisonResult, budget: number): string => {
+  const lines = [
+    `Section ${id}: ${section.title || UNTITLED_SECTION}`,
+    `Overview: ${formatSectionChanges(section, result.comparedColumns)}`,
+    'Changed rows:',
+  ];
+  let length = lines.join('\n').length;
+  for (let i = 0; i < section.changedRows.length; i++) {
+    const rowText = describeRow(section.changedRows[i], result).join('\n');
+    if (length + rowText.length > budget && i > 0) {
+      lines.push(`... and ${section.changedRows.length - i} more changed rows (see the overview).`);
+      break;
+    }
+    lines.push(rowText);
+    length += rowText.length + 1;
+  }
+  return lines.join('\n');
+};
+
+const buildSectionAnalysisPrompt = (sectionTexts: string[]): string => `
+    You are a QA lead reviewing the changes between two versions of a test case document, one section at a time.
+    For every section below, return:
+    - "summary": 1-2 sentences on what changed in the section and why it matters.
+    - "riskFlags": changes that make the test weaker or riskier, such as relaxed or removed pass criteria in Expected Outcome, removed verification steps, or steps that no longer check what they used to. Use an empty list when there are none; do not invent risks.
+    - "regressionFocus": features or behaviours that should get regression testing because of these changes.
+
+    Answer with JSON only, in this shape:
+    {"sections": [{"id": 1, "summary": "...", "riskFlags": ["..."], "regressionFocus": ["..."]}]}
+
+    ${sectionTexts.join('\n\n')}
+    `;
+
+/** Reads the model's answer, tolerating a Markdown code fence around the JSON. */
+const parseSectionAnalysisResponse = (text: string): Map<number, SectionAnalysis> => {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The model did not answer with valid JSON.");
+  }
+  if (!isRecord(data) || !Array.isArray(data.sections)) {
+    throw new Error('The model\'s answer has no "sections" list.');
+  }
+
+  const analyses = new Map<number, SectionAnalysis>();
+  for (const entry of data.sections as unknown[]) {
+    if (!isRecord(entry)) continue;
+    const id = Number(entry.id);
+    if (!Number.isInteger(id) || typeof entry.summary !== 'string') continue;
+    analyses.set(id, {
+      summary: entry.summary,
+      riskFlags: isStringList(entry.riskFlags) ? entry.riskFlags : [],
+      regressionFocus: isStringList(entry.regressionFocus) ? entry.regressionFocus : [],
+    });
+  }
+  return analyses;
+};
+
+/**
+ * Asks the configured model for a structured analysis of every changed section. Sections are
+ * packed into as few requests as the budget allows, so every change is seen rather than a sample.
+ * `onProgress` is called after each request with the number of sections analysed so far.
+ */
+export const analyzeSections = async (
+  config: SummaryProviderConfig,
+  result: ComparisonResult,
+  onProgress?: (completed: number, total: number) => void
+): Promise<SectionAnalysisMap> => {
+  const provider = getSummaryProvider(config);
+  if (!provider) {
+    throw new Error("Choose an AI provider under Summary Settings to analyze sections.");
+  }
+
+  const sections = buildChangeNarrative(result).sections;
+  const requests: Array<Array<{ id: number; section: SectionChanges; text: string }>> = [];
+  let current: typeof requests[number] = [];
+  let currentLength = 0;
+  sections.forEach((section, index) => {
+    const text = describeSection(index + 1, section, result, REQUEST_BUDGET);
+    if (current.length > 0 && currentLength + text.length > REQUEST_BUDGET) {
+      requests.push(current);
+      current = [];
+      currentLength = 0;
+    }
+    current.push({ id: index + 1, section, text });
+    currentLength += text.length;
+  });
+  if (current.length > 0) requests.push(current);
+
+  const analyses: SectionAnalysisMap = {};
+  let completed = 0;
+  onProgress?.(0, sections.length);
+  for (const request of requests) {
+    let answer: Map<number, SectionAnalysis>;
+    try {
+      const text = await provider.generate(buildSectionAnalysisPrompt(request.map(item => item.text)), { json: true });
+      answer = parseSectionAnalysisResponse(text);
+    } catch (error) {
+      console.error(`Error analyzing sections with ${SUMMARY_PROVIDER_LABELS[config.provider]}:`, error);
+      throw new Error(`Section analysis failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    request.forEach(({ id, section }) => {
+      const analysis = answer.get(id);
+      if (analysis) analyses[getSectionAnalysisKey(section.key)] = analysis;
+    });
+    completed += request.length;
+    onProgress?.(completed, sections.length);
+  }
+  return analyses;
+};
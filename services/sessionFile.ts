@@ -0,0 +1,137 @@
+import { ChangeSummary, ComparisonMode, ComparisonOptions, ComparisonResult, ComparisonRowPair, DiffGranularity } from '../types';
+import { DEFAULT_COMPARISON_OPTIONS } from './comparisonEngine';
+import { readIgnoreRules } from './ignoreRules';
+import { isRecord, isStringList } from './jsonData';
+import { createCellSanitizer, logSanitizeReport, SanitizeReport, sanitizeRow, sanitizeTable } from './htmlSanitizer';
+
+const SESSION_FORMAT = 'tc-comparator-session';
+const SESSION_VERSION = 1;
+
+export const SESSION_FILE_EXTENSION = '.tcsession.json';
+
+/**
+ * Everything the single comparison view shows, so a saved comparison can be reopened without the
+ * original documents and without asking the summary provider again.
+ */
+export interface ComparisonSession {
+  originalFileName: string;
+  revisedFileName: string;
+  /** The parsed tables, as read from the documents; enough to compare again with other settings. */
+  originalRawData: any[][];
+  revisedRawData: any[][];
+  mode: ComparisonMode;
+  options: ComparisonOptions;
+  result: ComparisonResult;
+  /** Null when the session was saved before the summary was written. */
+  summary: ChangeSummary | null;
+  /** Where the review of the two documents is kept in the browser that saved the session. */
+  reviewStorageKey: string | null;
+}
+
+interface SessionFile extends ComparisonSession {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  savedAt: string;
+}
+
+export const serializeSession = (session: ComparisonSession): string => {
+  const file: SessionFile = { format: SESSION_FORMAT, version: SESSION_VERSION, savedAt: new Date().toISOString(), ...session };
+  return JSON.stringify(file);
+};
+
+const isTable = (value: unknown): value is any[][] => Array.isArray(value) && value.every(row => Array.isArray(row));
+
+const isResult = (value: unknown): value is ComparisonResult =>
+  isRecord(value) && Array.isArray(value.rows) && Array.isArray(value.headers) && typeof value.keyColumn === 'string' && Array.isArray(value.comparedColumns);
+
+const isCountList = (value: unknown): value is number[] => Array.isArray(value) && value.every(count => typeof count === 'number');
+
+const isSummary = (value: unknown): value is ChangeSummary =>
+  isRecord(value) && typeof value.text === 'string' && (value.source === 'ai' || value.source === 'rules');
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number';
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isMode = (value: unknown): value is ComparisonMode => value === 'step' || value === 'content';
+
+const isGranularity = (value: unknown): value is DiffGranularity => value === 'word' || value === 'character' || value === 'line';
+
+const isHeaderAliases = (value: unknown): value is Record<string, string> =>
+  isRecord(value) && Object.values(value).every(target => typeof target === 'string');
+
+/** A saved setting, or its default when the session was saved before it existed or it is unreadable. */
+const readSetting = <T>(value: unknown, isValid: (value: unknown) => value is T, fallback: T): T => (isValid(value) ? value : fallback);
+
+const readOptions = (value: unknown): ComparisonOptions => {
+  const defaults = DEFAULT_COMPARISON_OPTIONS;
+  const saved = isRecord(value) ? value : {};
+  const schema = isRecord(saved.schema) ? saved.schema : {};
+  const textDiff = isRecord(saved.textDiff) ? saved.textDiff : {};
+  return {
+    similarityThreshold: readSetting(saved.similarityThreshold, isNumber, defaults.similarityThreshold),
+    schema: {
+      keyColumn: readSetting(schema.keyColumn, isString, defaults.schema.keyColumn),
+      comparedColumns: readSetting(schema.comparedColumns, isStringList, defaults.schema.comparedColumns),
+      headerAliases: readSetting(schema.headerAliases, isHeaderAliases, defaults.schema.headerAliases),
+    },
+    subCategoryPatterns: readSetting(saved.subCategoryPatterns, isStringList, defaults.subCategoryPatterns),
+    encoding: readSetting(saved.encoding, isString, defaults.encoding),
+    textDiff: {
+      granularity: readSetting(textDiff.granularity, isGranularity, defaults.textDiff.granularity),
+      ignoreCase: readSetting(textDiff.ignoreCase, isBoolean, defaults.textDiff.ignoreCase),
+      ignoreWhitespace: readSetting(textDiff.ignoreWhitespace, isBoolean, defaults.textDiff.ignoreWhitespace),
+      ignorePunctuation: readSetting(textDiff.ignorePunctuation, isBoolean, defaults.textDiff.ignorePunctuation),
+      ignoreRules: readIgnoreRules(textDiff.ignoreRules),
+    },
+  };
+};
+
+/** Reads a saved session, throwing an error that can be shown as is when the file is not one. */
+export const parseSession = (text: string): ComparisonSession => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not a saved comparison session.");
+  }
+  if (!isRecord(data) || data.format !== SESSION_FORMAT) {
+    throw new Error("The file is not a saved comparison session.");
+  }
+  if (typeof data.version !== 'number' || data.version > SESSION_VERSION) {
+    throw new Error("The session was saved by a newer version of the app.");
+  }
+  const { originalRawData, revisedRawData, result: savedResult, mode } = data;
+  if (!isTable(originalRawData) || !isTable(revisedRawData) || !isResult(savedResult) || !isMode(mode)) {
+    throw new Error("The session file is incomplete or damaged.");
+  }
+
+  const options = readOptions(data.options);
+  // A session file can come from anyone, so its cells are cleaned like those of an uploaded document.
+  const removed: SanitizeReport = {};
+  const sanitize = createCellSanitizer(removed);
+  const result: ComparisonResult = {
+    subCategoryPatterns: options.subCategoryPatterns,
+    ...savedResult,
+    textDiff: options.textDiff,
+    suppressedDifferences: isCountList(savedResult.suppressedDifferences) ? savedResult.suppressedDifferences : undefined,
+    rows: savedResult.rows.map((pair: ComparisonRowPair) => ({
+      ...pair,
+      original: pair.original && sanitizeRow(pair.original, sanitize),
+      revised: pair.revised && sanitizeRow(pair.revised, sanitize),
+    })),
+  };
+  const session: ComparisonSession = {
+    originalFileName: String(data.originalFileName ?? 'Original'),
+    revisedFileName: String(data.revisedFileName ?? 'Revised'),
+    originalRawData: sanitizeTable(originalRawData, removed),
+    revisedRawData: sanitizeTable(revisedRawData, removed),
+    mode,
+    options,
+    result,
+    summary: isSummary(data.summary) ? data.summary : null,
+    reviewStorageKey: typeof data.reviewStorageKey === 'string' ? data.reviewStorageKey : null,
+  };
+  logSanitizeReport('the session file', removed);
+  return session;
+};
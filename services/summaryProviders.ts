@@ -0,0 +1,149 @@
+import { ChangeSummary, ChangeType, ComparisonMode, ComparisonResult, ComparisonRowPair, DiffSummary, SummaryProviderConfig, SummaryProviderKind } from '../types';
+import { describeChanges } from './changeNarrative';
+import { createGeminiProvider } from './geminiService';
+import { isRecord } from './jsonData';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleService';
+
+export interface GenerateOptions {
+  /** Ask the model for a JSON object instead of prose. */
+  json?: boolean;
+}
+
+/** Turns a prompt into summary text. Implementations throw on failure; callers decide what to show. */
+export interface SummaryProvider {
+  generate: (prompt: string, options?: GenerateOptions) => Promise<string>;
+}
+
+export const SUMMARY_PROVIDER_LABELS: Record<SummaryProviderKind, string> = {
+  none: 'None (rule-based summary)',
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible (Ollama, llama.cpp, ...)',
+};
+
+export const DEFAULT_SUMMARY_MODELS: Record<SummaryProviderKind, string> = {
+  none: '',
+  gemini: 'gemini-2.5-flash',
+  openai: 'llama3.1',
+};
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+const STORAGE_KEY = 'tc-comparator.summary-provider';
+
+const isProviderKind = (value: unknown): value is SummaryProviderKind =>
+  typeof value === 'string' && value in SUMMARY_PROVIDER_LABELS;
+
+/**
+ * The configuration from the build environment (.env.local): SUMMARY_PROVIDER, SUMMARY_MODEL,
+ * SUMMARY_BASE_URL and SUMMARY_API_KEY, falling back to Gemini when only GEMINI_API_KEY is set.
+ */
+const getEnvironmentConfig = (): SummaryProviderConfig => {
+  const geminiApiKey = process.env.API_KEY || '';
+  const configured = process.env.SUMMARY_PROVIDER;
+  const provider: SummaryProviderKind = isProviderKind(configured) ? configured : geminiApiKey ? 'gemini' : 'none';
+  return {
+    provider,
+    model: process.env.SUMMARY_MODEL || DEFAULT_SUMMARY_MODELS[provider],
+    baseUrl: process.env.SUMMARY_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+    apiKey: process.env.SUMMARY_API_KEY || (provider === 'gemini' ? geminiApiKey : ''),
+  };
+};
+
+/** Settings saved from the settings panel take precedence over the build environment. */
+export const loadSummaryProviderConfig = (): SummaryProviderConfig => {
+  const fallback = getEnvironmentConfig();
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (isRecord(saved) && isProviderKind(saved.provider)) {
+      const readString = (value: unknown, defaultValue: string) => (typeof value === 'string' ? value : defaultValue);
+      return {
+        provider: saved.provider,
+        model: readString(saved.model, saved.provider === fallback.provider ? fallback.model : DEFAULT_SUMMARY_MODELS[saved.provider]),
+        baseUrl: readString(saved.baseUrl, fallback.baseUrl),
+        apiKey: readString(saved.apiKey, fallback.apiKey),
+      };
+    }
+  } catch (e) {
+    console.warn("Ignoring unreadable summary provider settings:", e);
+  }
+  return fallback;
+};
+
+export const saveSummaryProviderConfig = (config: SummaryProviderConfig): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (e) {
+    console.warn("Could not save the summary provider settings:", e);
+  }
+};
+
+/** Returns null when no summary should be generated, or when the chosen provider is missing settings. */
+export const getSummaryProvider = (config: SummaryProviderConfig): SummaryProvider | null => {
+  switch (config.provider) {
+    case 'gemini':
+      return config.apiKey ? createGeminiProvider(config) : null;
+    case 'openai':
+      return config.baseUrl ? createOpenAiCompatibleProvider(config) : null;
+    default:
+      return null;
+  }
+};
+
+const describeMatching = ({ keyColumn }: ComparisonResult, mode: ComparisonMode): string =>
+  mode === 'content'
+    ? "The comparison was performed by pairing test steps whose text is similar enough, regardless of their position or numbering, from a table within the test case files."
+    : `The comparison was performed by matching test steps based on their '${keyColumn}' value from a table within the test case files.`;
+
+export const buildSummaryPrompt = (
+  matching: string,
+  diffSummary: DiffSummary,
+  changedRowsSample: ComparisonRowPair[],
+  narrative: string
+): string => `
+    You are an expert data analyst assistant. Your task is to provide a concise, high-level summary of the differences between two versions of an HTML test case document.
+    Do not repeat the stats verbatim; instead, interpret them to describe the nature of the changes. The user is likely a project manager or QA lead, so make the summary easy to understand and focused on test procedures and outcomes.
+
+    ${matching}
+
+    Here is a statistical summary of the changes:
+    - Test steps added: ${diffSummary.added}
+    - Test steps deleted: ${diffSummary.deleted}
+    - Test steps modified: ${diffSummary.modified} (of which formatting only, with unchanged text: ${diffSummary.formattingOnly})
+    - Test steps moved to a different position or section: ${diffSummary.moved}
+
+    Here is a rule-based breakdown of the changes by section. It is complete and exact, so rely on it for which sections and steps changed:
+    ${narrative}
+
+    Here is a sample of up to 10 changed rows to provide context (format is: {status, originalData, revisedData}):
+    ${JSON.stringify(changedRowsSample.map(p => ({ status: p.status, original: p.original, revised: p.revised })), null, 2)}
+
+    Based on this information, provide a brief, insightful summary of what has changed between the two file versions.
+    For example, instead of "3 rows were modified", you could say "Several test procedures and expected outcomes were updated, particularly for the login and checkout sequences."
+    Focus on the substance of the changes if possible (e.g., "It appears the authentication flow has been significantly reworked").
+    Keep the summary to 2-4 sentences.
+    `;
+
+/**
+ * Summarizes the changes with the configured provider. The rule-based narrative is the summary when
+ * no provider is configured, when nothing changed, or when the provider fails; it is also sent to
+ * the provider so the model does not have to infer the structure from a sample of rows.
+ */
+export const getChangesSummary = async (
+  config: SummaryProviderConfig,
+  result: ComparisonResult,
+  mode: ComparisonMode,
+  diffSummary: DiffSummary
+): Promise<ChangeSummary> => {
+  const narrative: ChangeSummary = { text: describeChanges(result), source: 'rules' };
+  const provider = getSummaryProvider(config);
+  const changedRowsSample = result.rows.filter(r => r.status !== ChangeType.UNCHANGED).slice(0, 10);
+  if (!provider || changedRowsSample.length === 0) return narrative;
+
+  try {
+    const text = await provider.generate(buildSummaryPrompt(describeMatching(result, mode), diffSummary, changedRowsSample, narrative.text));
+    return text.trim() ? { text, source: 'ai' } : narrative;
+  } catch (error) {
+    console.error(`Error calling the ${SUMMARY_PROVIDER_LABELS[config.provider]} summary provider:`, error);
+    return narrative;
+  }
+};
@@ -0,0 +1,481 @@
+import { DiffGranularity, TextDiffOptions } from '../types';
+import { findCommonSubsequence } from './myersDiff';
+import { getActiveIgnoreRules, splitIgnoredText } from './ignoreRules';
+
+export const DEFAULT_TEXT_DIFF_OPTIONS: TextDiffOptions = {
+  granularity: 'word',
+  ignoreCase: false,
+  ignoreWhitespace: false,
+  ignorePunctuation: false,
+  ignoreRules: [],
+};
+
+// Chinese and Japanese are written without spaces, so each of their characters (and full-width
+// punctuation) counts as a word. For use inside a character class of a regular expression with the u flag.
+export const CJK_CHARACTERS = '\\p{scx=Han}\\p{scx=Hiragana}\\p{scx=Katakana}\\uff01-\\uff60';
+
+export enum DiffType {
+  COMMON = 'COMMON',
+  ADDED = 'ADDED',
+  DELETED = 'DELETED',
+  /** The same text with different formatting, e.g. a word that became bold. */
+  FORMATTED = 'FORMATTED',
+}
+
+export interface DiffSegment {
+  type: DiffType;
+  /** A run of text as HTML (entities kept), or a single structural tag such as <li> or <br> when `isTag`. */
+  value: string;
+  isTag: boolean;
+  /** Opening tags of the inline formatting around the text, outermost first. */
+  formatting: string[];
+  /** Explains the change when the highlight alone does not, e.g. "Formatting changed: bold added". */
+  title?: string;
+}
+
+/** The class put on the element wrapping each kind of changed text. */
+export type DiffClassNames = Record<Exclude<DiffType, DiffType.COMMON>, string>;
+
+// Elements that lay out the cell. They take part in the diff as tokens of their own, so a changed
+// word never takes a tag with it and the output keeps the lists, paragraphs and tables of the cell.
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'caption', 'colgroup', 'dd', 'details', 'div', 'dl', 'dt',
+  'figcaption', 'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'li', 'main', 'nav', 'ol',
+  'p', 'pre', 'section', 'summary', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul',
+]);
+const BREAK_TAGS = new Set(['br', 'hr']);
+// Void elements with content of their own, like images, are compared as words.
+const VOID_TAGS = new Set(['area', 'base', 'col', 'embed', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+// Inline formatting that reads the same whichever tag wrote it.
+const FORMATTING_NAMES: Record<string, string> = {
+  b: 'bold',
+  strong: 'bold',
+  i: 'italic',
+  em: 'italic',
+  u: 'underline',
+  s: 'strikethrough',
+  strike: 'strikethrough',
+  del: 'strikethrough',
+  sup: 'superscript',
+  sub: 'subscript',
+  code: 'code',
+  mark: 'highlight',
+  a: 'link',
+};
+
+const SPACE = '(?:\\s|&nbsp;|&#160;|&#xa0;)+';
+const ENTITY = '&(?:#\\d+|#x[\\da-f]+|[a-z][a-z\\d]*);';
+const WORD_PATTERN = new RegExp(`${SPACE}|[${CJK_CHARACTERS}]|(?:(?!${SPACE}|[${CJK_CHARACTERS}])(?:${ENTITY}|[^]))+`, 'giu');
+// How text between tags is split; lines are made of words afterwards. Entities are never split.
+const TEXT_TOKEN_PATTERNS: Record<DiffGranularity, RegExp> = {
+  word: WORD_PATTERN,
+  character: new RegExp(`${SPACE}|${ENTITY}|[^]`, 'giu'),
+  line: WORD_PATTERN,
+};
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0' };
+
+const decodeEntities = (text: string): string => {
+  return text.replace(new RegExp(ENTITY, 'gi'), entity => {
+    const name = entity.slice(1, -1).toLowerCase();
+    if (!name.startsWith('#')) return NAMED_ENTITIES[name] ?? entity;
+    const code = name.startsWith('#x') ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+  });
+};
+
+/** What a piece of text is compared by. Empty when the options ignore all of it. */
+const getTextKey = (value: string, options: TextDiffOptions): string => {
+  let text = decodeEntities(value);
+  if (!text.trim()) return options.ignoreWhitespace ? '' : `s:${text}`;
+  if (options.ignoreCase) text = text.toLowerCase();
+  if (options.ignorePunctuation) text = text.replace(/\p{P}/gu, '');
+  return text ? `t:${text}` : '';
+};
+
+export const hasIgnoreOptions = (options: TextDiffOptions): boolean =>
+  options.ignoreCase || options.ignoreWhitespace || options.ignorePunctuation || getActiveIgnoreRules(options.ignoreRules).length > 0;
+
+const TAG_SPLIT_PATTERN = /(<!--[\s\S]*?-->|<(?:[^>"']|"[^"]*"|'[^']*')*>)/;
+const TAG_NAME_PATTERN = /^<\/?([a-z][a-z0-9-]*)/i;
+
+type TokenKind = 'text' | 'tag';
+
+interface Token {
+  kind: TokenKind;
+  /** What the diff compares: the word itself, or the tag name for structure. Empty for text the options ignore. */
+  key: string;
+  value: string;
+  formatting: string[];
+  /** The block elements open before the token, e.g. "ul/li". */
+  blockPath: string;
+  isOpening: boolean;
+  isClosing: boolean;
+  tagName: string;
+}
+
+const getTagName = (tag: string) => (TAG_NAME_PATTERN.exec(tag)?.[1] ?? '').toLowerCase();
+
+/** Splits cell HTML into words (or characters), whitespace and structural tags, each knowing the formatting around it. */
+const tokenize = (html: string, options: TextDiffOptions): Token[] => {
+  const tokens: Token[] = [];
+  const formatting: string[] = [];
+  const blocks: string[] = [];
+
+  const push = (kind: TokenKind, key: string, value: string, tagName = '', isOpening = false, isClosing = false) => {
+    tokens.push({ kind, key, value, formatting: [...formatting], blockPath: blocks.join('/'), isOpening, isClosing, tagName });
+  };
+  const popTo = (stack: string[], name: string, nameOf: (entry: string) => string) => {
+    const index = stack.map(nameOf).lastIndexOf(name);
+    if (index !== -1) stack.length = index;
+  };
+
+  html.split(TAG_SPLIT_PATTERN).forEach(part => {
+    if (!part || part.startsWith('<!--')) return;
+    const name = part.startsWith('<') ? getTagName(part) : '';
+    if (!name) {
+      // Text an ignore rule matches is one word that equals every other match of the rule.
+      splitIgnoredText(part, options.ignoreRules).forEach(({ text, rule }) => {
+        if (rule) push('text', `r:${rule.pattern}`, text);
+        else text.match(TEXT_TOKEN_PATTERNS[options.granularity])?.forEach(word => push('text', getTextKey(word, options), word));
+      });
+      return;
+    }
+    const isClosing = part.startsWith('</');
+    if (BLOCK_TAGS.has(name)) {
+      if (isClosing) {
+        popTo(blocks, name, entry => entry);
+        push('tag', `</${name}`, part, name, false, true);
+      } else {
+        push('tag', `<${name}`, part, name, true, false);
+        blocks.push(name);
+      }
+    } else if (BREAK_TAGS.has(name)) {
+      if (!isClosing) push('tag', `<${name}`, part, name);
+    } else if (VOID_TAGS.has(name)) {
+      if (!isClosing) push('text', `v:${part}`, part);
+    } else if (isClosing) {
+      popTo(formatting, name, getTagName);
+    } else if (!part.endsWith('/>')) {
+      formatting.push(part);
+    }
+  });
+  return tokens;
+};
+
+/** What the formatting tags mean, so <b> and <strong> compare equal and unstyled spans are ignored. */
+const getFormattingSignature = (formatting: string[]): Set<string> => {
+  const signature = new Set<string>();
+  formatting.forEach(tag => {
+    const name = getTagName(tag);
+    if (FORMATTING_NAMES[name]) {
+      signature.add(FORMATTING_NAMES[name]);
+    } else if (/\s[a-z-]+\s*=/i.test(tag)) {
+      signature.add(tag.replace(/\s+/g, ' ').toLowerCase());
+    }
+  });
+  return signature;
+};
+
+/** Describes how the formatting of a word changed, or returns null when it did not. */
+const describeFormattingChange = (original: string[], revised: string[]): string | null => {
+  const before = getFormattingSignature(original);
+  const after = getFormattingSignature(revised);
+  const added = [...after].filter(entry => !before.has(entry));
+  const removed = [...before].filter(entry => !after.has(entry));
+  if (added.length === 0 && removed.length === 0) return null;
+
+  const named = (entries: string[]) => entries.filter(entry => !entry.startsWith('<'));
+  const changes = [
+    ...named(added).map(entry => `${entry} added`),
+    ...named(removed).map(entry => `${entry} removed`),
+  ];
+  if (named(added).length < added.length || named(removed).length < removed.length) changes.push('style changed');
+  return `Formatting changed: ${changes.join(', ')}`;
+};
+
+type EditOperation =
+  | { type: 'common'; original: number; revised: number }
+  | { type: 'deleted'; original: number }
+  | { type: 'added'; revised: number }
+  /** Revised text that only differs in what the options ignore; shown as it is. */
+  | { type: 'ignored'; revised: number };
+
+/** Tokens compared as one: a single token, or a whole line of text in line granularity. */
+interface DiffUnit {
+  start: number;
+  end: number;
+  key: string;
+}
+
+const getUnits = (tokens: Token[], start: number, end: number, granularity: DiffGranularity): DiffUnit[] => {
+  const units: DiffUnit[] = [];
+  let lineKeys: string[] = [];
+  for (let index = start; index < end; index++) {
+    const token = tokens[index];
+    const last = units[units.length - 1];
+    if (granularity === 'line' && token.kind === 'text' && last?.end === index && tokens[last.start].kind === 'text') {
+      last.end++;
+      if (token.key) lineKeys.push(token.key);
+      last.key = lineKeys.join('\u0000');
+    } else {
+      lineKeys = token.key ? [token.key] : [];
+      units.push({ start: index, end: index + 1, key: token.key });
+    }
+  }
+  return units.filter(unit => unit.key);
+};
+
+/**
+ * Adds the edit script of original[originalStart, originalEnd) against revised[revisedStart, revisedEnd) to
+ * `script`. Text the options ignore takes no part in the matching: between two matches it only counts as a
+ * change when something else there changed too.
+ */
+const appendEditScript = (
+  script: EditOperation[],
+  original: Token[],
+  revised: Token[],
+  [originalStart, originalEnd]: [number, number],
+  [revisedStart, revisedEnd]: [number, number],
+  granularity: DiffGranularity
+) => {
+  let i = originalStart;
+  let j = revisedStart;
+  const pushChanges = (originalTo: number, revisedTo: number) => {
+    const isChanged = original.slice(i, originalTo).some(token => token.key) || revised.slice(j, revisedTo).some(token => token.key);
+    for (; i < originalTo; i++) {
+      if (isChanged) script.push({ type: 'deleted', original: i });
+    }
+    for (; j < revisedTo; j++) script.push(isChanged ? { type: 'added', revised: j } : { type: 'ignored', revised: j });
+  };
+
+  const originalUnits = getUnits(original, originalStart, originalEnd, granularity);
+  const revisedUnits = getUnits(revised, revisedStart, revisedEnd, granularity);
+  const matches = findCommonSubsequence(originalUnits.length, revisedUnits.length, (a, b) => originalUnits[a].key === revisedUnits[b].key);
+  for (const [matchOriginal, matchRevised] of matches) {
+    const before = originalUnits[matchOriginal];
+    const after = revisedUnits[matchRevised];
+    pushChanges(before.start, after.start);
+    if (before.end - before.start === 1 && after.end - after.start === 1) {
+      script.push({ type: 'common', original: i++, revised: j++ });
+    } else {
+      // An unchanged line is lined up word by word, for its formatting changes and ignored text.
+      appendEditScript(script, original, revised, [before.start, before.end], [after.start, after.end], 'word');
+      i = before.end;
+      j = after.end;
+    }
+  }
+  pushChanges(originalEnd, revisedEnd);
+};
+
+const buildEditScript = (original: Token[], revised: Token[], granularity: DiffGranularity): EditOperation[] => {
+  const script: EditOperation[] = [];
+  appendEditScript(script, original, revised, [0, original.length], [0, revised.length], granularity);
+  return script;
+};
+
+/** True when the structural tags of the run open and close each other, like a whole list item. */
+const isBalanced = (tokens: Token[]): boolean => {
+  const open: string[] = [];
+  for (const token of tokens) {
+    if (token.isOpening) open.push(token.tagName);
+    if (token.isClosing && open.pop() !== token.tagName) return false;
+  }
+  return open.length === 0;
+};
+
+/**
+ * A removed list item can be matched in more than one way: "</li><li>b" is as short an edit as
+ * "<li>b</li>". Slides each run of deleted tokens over equal neighbours until its tags balance,
+ * so it can be shown in place as the element it was.
+ */
+const balanceDeletedRuns = (script: EditOperation[], original: Token[]) => {
+  const originalAt = (operations: EditOperation[], index: number) => (operations[index] as { original: number }).original;
+  const runTokens = (operations: EditOperation[], from: number, to: number) =>
+    operations.slice(from, to).map((_, offset) => original[originalAt(operations, from + offset)]);
+
+  // Moving the run one token back or forward swaps its far end with the equal common token on the other side.
+  const slide = (start: number, end: number, step: -1 | 1): EditOperation[] | null => {
+    const moved = script.slice();
+    for (let from = start, to = end; ; from += step, to += step) {
+      const neighbourIndex = step === -1 ? from - 1 : to;
+      const edgeIndex = step === -1 ? to - 1 : from;
+      const neighbour = moved[neighbourIndex];
+      if (neighbour?.type !== 'common' || original[neighbour.original].key !== original[originalAt(moved, edgeIndex)].key) return null;
+      const edgeOriginal = originalAt(moved, edgeIndex);
+      moved[neighbourIndex] = { type: 'deleted', original: neighbour.original };
+      moved[edgeIndex] = { type: 'common', original: edgeOriginal, revised: neighbour.revised };
+      if (isBalanced(runTokens(moved, from + step, to + step))) return moved;
+    }
+  };
+
+  for (let start = 0; start < script.length; start++) {
+    if (script[start].type !== 'deleted') continue;
+    let end = start;
+    while (end < script.length && script[end].type === 'deleted') end++;
+    if (!isBalanced(runTokens(script, start, end))) {
+      const moved = slide(start, end, -1) ?? slide(start, end, 1);
+      if (moved) script.splice(0, script.length, ...moved);
+    }
+    start = end;
+  }
+};
+
+/**
+ * Word diff of two HTML cells that compares their text and keeps their structure. Lists, paragraphs,
+ * line breaks and tables come from the revised cell; a deleted run brings its own tags only when
+ * they form whole elements that fit where it is shown, and removed line breaks are marked with ↵.
+ * Words that stay but change formatting are FORMATTED rather than deleted and added again.
+ * `options` choose whether words, characters or lines are compared and which differences do not count.
+ */
+export const createDiff = (originalHtml: string, revisedHtml: string, options: TextDiffOptions = DEFAULT_TEXT_DIFF_OPTIONS): DiffSegment[] => {
+  const original = tokenize(originalHtml, options);
+  const revised = tokenize(revisedHtml, options);
+  const script = buildEditScript(original, revised, options.granularity);
+  balanceDeletedRuns(script, original);
+
+  const segments: DiffSegment[] = [];
+  const text = (type: DiffType, token: Token, title?: string) =>
+    segments.push({ type, value: token.value, isTag: false, formatting: token.formatting, title });
+  const tag = (type: DiffType, token: Token) =>
+    segments.push({ type, value: token.value, isTag: true, formatting: [] });
+
+  // The block elements open in the output so far, to check a deleted run fits where it goes.
+  const blocks: string[] = [];
+  const emitRevised = (type: DiffType, token: Token) => {
+    if (token.kind === 'text') {
+      text(type, token);
+      return;
+    }
+    if (token.isOpening) blocks.push(token.tagName);
+    if (token.isClosing) blocks.splice(blocks.lastIndexOf(token.tagName));
+    tag(type, token);
+  };
+
+  for (let index = 0; index < script.length; index++) {
+    const operation = script[index];
+    if (operation.type === 'common') {
+      const before = original[operation.original];
+      const after = revised[operation.revised];
+      const change = after.kind === 'text' && after.value.trim() ? describeFormattingChange(before.formatting, after.formatting) : null;
+      if (change) {
+        text(DiffType.FORMATTED, after, change);
+      } else {
+        emitRevised(DiffType.COMMON, after);
+      }
+    } else if (operation.type === 'added') {
+      emitRevised(DiffType.ADDED, revised[operation.revised]);
+    } else if (operation.type === 'ignored') {
+      emitRevised(DiffType.COMMON, revised[operation.revised]);
+    } else {
+      const run: Token[] = [];
+      for (; index < script.length && script[index].type === 'deleted'; index++) {
+        run.push(original[(script[index] as { original: number }).original]);
+      }
+      index--;
+      const keepsTags = run.some(token => token.isOpening) && isBalanced(run) && run[0].blockPath === blocks.join('/');
+      let markedBreak = false;
+      run.forEach(token => {
+        if (token.kind === 'text') {
+          text(DiffType.DELETED, token);
+          markedBreak = false;
+        } else if (keepsTags) {
+          tag(DiffType.DELETED, token);
+        } else if (!markedBreak && !token.isClosing) {
+          segments.push({ type: DiffType.DELETED, value: '↵', isTag: false, formatting: [], title: 'Line break removed' });
+          markedBreak = true;
+        }
+      });
+    }
+  }
+  return segments;
+};
+
+/**
+ * True when two cells differ in nothing but what the options ignore, comparing them on the words or
+ * characters of their granularity. Without ignore options only identical cells are the same.
+ */
+export const isSameCell = (originalHtml: string, revisedHtml: string, options: TextDiffOptions): boolean => {
+  if (originalHtml === revisedHtml) return true;
+  if (!hasIgnoreOptions(options)) return false;
+  const original = tokenize(originalHtml, options).filter(token => token.key);
+  const revised = tokenize(revisedHtml, options).filter(token => token.key);
+  return original.length === revised.length && original.every((token, index) => {
+    const other = revised[index];
+    if (token.key !== other.key) return false;
+    return token.kind === 'tag' ? token.value === other.value : token.formatting.join('') === other.formatting.join('');
+  });
+};
+
+/** The words of a cell line by line, as the options compare them; images, spacing and formatting left out. */
+const getTextLines = (html: string, options: TextDiffOptions): string[] => {
+  const keys: string[] = [];
+  tokenize(html, options).forEach(token => {
+    if (token.kind === 'tag') {
+      if (keys.length > 0 && keys[keys.length - 1] !== '\n') keys.push('\n');
+    } else if (token.key.startsWith('t:') || token.key.startsWith('r:')) {
+      keys.push(token.key);
+    }
+  });
+  if (keys[keys.length - 1] === '\n') keys.pop();
+  return keys;
+};
+
+/** True when two cells have the same words, line by line, under the options; formatting may differ. */
+export const isSameText = (originalHtml: string, revisedHtml: string, options: TextDiffOptions): boolean => {
+  const original = getTextLines(originalHtml, options);
+  const revised = getTextLines(revisedHtml, options);
+  return original.length === revised.length && original.every((key, index) => key === revised[index]);
+};
+
+const sameFormatting = (a: DiffSegment, b: DiffSegment) =>
+  a.formatting.length === b.formatting.length && a.formatting.every((tag, index) => tag === b.formatting[index]);
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+/**
+ * Turns diff segments back into HTML whose tags are balanced: formatting is closed before every
+ * structural tag and reopened around the text that needs it, and highlights only ever wrap text.
+ */
+export const renderDiffHtml = (segments: DiffSegment[], classNames: DiffClassNames): string => {
+  const html: string[] = [];
+  let open: string[] = [];
+
+  const openFormatting = (formatting: string[]) => {
+    let shared = 0;
+    while (shared < open.length && shared < formatting.length && open[shared] === formatting[shared]) shared++;
+    for (let index = open.length - 1; index >= shared; index--) html.push(`</${getTagName(open[index])}>`);
+    html.push(...formatting.slice(shared));
+    open = formatting;
+  };
+
+  for (let index = 0; index < segments.length; index++) {
+    const segment = segments[index];
+    if (segment.isTag) {
+      openFormatting([]);
+      html.push(segment.value);
+      continue;
+    }
+    let value = segment.value;
+    while (index + 1 < segments.length) {
+      const next = segments[index + 1];
+      if (next.isTag || next.type !== segment.type || next.title !== segment.title || !sameFormatting(next, segment)) break;
+      value += next.value;
+      index++;
+    }
+    openFormatting(segment.formatting);
+    if (segment.type === DiffType.COMMON || (segment.type === DiffType.ADDED && !value.trim())) {
+      html.push(value);
+    } else if (segment.type === DiffType.DELETED) {
+      // Whitespace-only deletions would only add empty highlights, and may sit where text is not allowed.
+      if (value.trim()) {
+        html.push(`<del class="${classNames[DiffType.DELETED]}"${segment.title ? ` title="${escapeAttribute(segment.title)}"` : ''}>${value}</del>`);
+      }
+    } else {
+      html.push(`<span class="${classNames[segment.type]}"${segment.title ? ` title="${escapeAttribute(segment.title)}"` : ''}>${value}</span>`);
+    }
+  }
+  openFormatting([]);
+  return html.join('');
+};
@@ -0,0 +1,107 @@
+/** Detect the encoding of each file instead of using a fixed one. */
+export const AUTO_ENCODING = 'auto';
+
+/** Encodings offered as a manual override, by WHATWG label. */
+export const TEXT_ENCODINGS: Array<{ value: string; label: string }> = [
+  { value: AUTO_ENCODING, label: 'Detect automatically' },
+  { value: 'utf-8', label: 'Unicode (UTF-8)' },
+  { value: 'utf-16le', label: 'Unicode (UTF-16)' },
+  { value: 'windows-1252', label: 'Western (Windows-1252)' },
+  { value: 'iso-8859-2', label: 'Central European (ISO-8859-2)' },
+  { value: 'windows-1251', label: 'Cyrillic (Windows-1251)' },
+  { value: 'big5', label: 'Traditional Chinese (Big5)' },
+  { value: 'gbk', label: 'Simplified Chinese (GBK)' },
+  { value: 'gb18030', label: 'Simplified Chinese (GB18030)' },
+  { value: 'shift_jis', label: 'Japanese (Shift_JIS)' },
+  { value: 'euc-kr', label: 'Korean (EUC-KR)' },
+];
+
+export type EncodingSource = 'override' | 'bom' | 'declared' | 'default' | 'fallback';
+
+export interface DecodedText {
+  text: string;
+  /** The WHATWG name of the encoding used, e.g. "big5". */
+  encoding: string;
+  source: EncodingSource;
+}
+
+const BOMS: Array<{ bytes: number[]; encoding: string }> = [
+  { bytes: [0xef, 0xbb, 0xbf], encoding: 'utf-8' },
+  { bytes: [0xff, 0xfe], encoding: 'utf-16le' },
+  { bytes: [0xfe, 0xff], encoding: 'utf-16be' },
+];
+
+// How far into a document a <meta charset> is looked for; browsers use the first 1024 bytes, Word
+// exports put a lot of markup before it.
+const DECLARATION_SCAN_BYTES = 8192;
+const META_CHARSET_PATTERN = /<meta\b[^>]*?charset\s*=\s*["']?\s*([\w.:-]+)/i;
+
+/** The canonical name of an encoding label, or null when the platform does not know it. */
+export const resolveEncoding = (label: string): string | null => {
+  try {
+    return new TextDecoder(label.trim()).encoding;
+  } catch {
+    return null;
+  }
+};
+
+/** Reads bytes one to one as characters, for looking at markup before the encoding is known. */
+export const bytesToBinaryString = (bytes: Uint8Array): string => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+};
+
+export const binaryStringToBytes = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+};
+
+const detectBom = (bytes: Uint8Array): string | null => {
+  const bom = BOMS.find(candidate => candidate.bytes.every((byte, index) => bytes[index] === byte));
+  return bom?.encoding ?? null;
+};
+
+/** The charset an HTML document declares in a <meta> tag, if the platform can decode it. */
+const detectDeclaredEncoding = (bytes: Uint8Array): string | null => {
+  const head = bytesToBinaryString(bytes.subarray(0, DECLARATION_SCAN_BYTES));
+  const declared = META_CHARSET_PATTERN.exec(head)?.[1];
+  const encoding = declared ? resolveEncoding(declared) : null;
+  // A page read as ASCII bytes cannot really be UTF-16, whatever it says; browsers read it as UTF-8.
+  return encoding?.startsWith('utf-16') ? 'utf-8' : encoding;
+};
+
+/**
+ * Decodes a text file. An explicit encoding wins; otherwise a byte order mark, then a charset declared in
+ * the markup (`declaredCharset`, e.g. from a MIME header, or a <meta> tag), then UTF-8. Files that are not
+ * valid UTF-8 and declare nothing are read as Windows-1252, which is what older Word exports use.
+ */
+export const decodeText = (data: ArrayBuffer | Uint8Array, encoding: string = AUTO_ENCODING, declaredCharset?: string): DecodedText => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const decode = (name: string, source: EncodingSource): DecodedText => ({
+    text: new TextDecoder(name).decode(bytes),
+    encoding: name,
+    source,
+  });
+
+  if (encoding !== AUTO_ENCODING) {
+    const override = resolveEncoding(encoding);
+    if (!override) throw new Error(`Unknown text encoding "${encoding}".`);
+    return decode(override, 'override');
+  }
+
+  const bom = detectBom(bytes);
+  if (bom) return decode(bom, 'bom');
+
+  const declared = (declaredCharset && resolveEncoding(declaredCharset)) || detectDeclaredEncoding(bytes);
+  if (declared) return decode(declared, 'declared');
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8', source: 'default' };
+  } catch {
+    return decode('windows-1252', 'fallback');
+  }
+};
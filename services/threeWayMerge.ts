@@ -0,0 +1,201 @@
+import { ChangeType, ComparisonMode, ComparisonOptions, ComparisonOutput, MergeStatus, RowData, TextDiffOptions, ThreeWayResult, ThreeWayRow } from '../types';
+import { DEFAULT_COMPARISON_OPTIONS, performLcsDiff, processRawData } from './comparisonEngine';
+import { formatRequiredHeaders } from './columnSchema';
+import { isSameCell } from './textDiff';
+
+interface Insertion {
+  row: RowData;
+  /** Set when the row is a base row that this version moved here. */
+  movedFrom?: number;
+}
+
+interface SideChanges {
+  /** Base row index -> what this version did to that row. */
+  changes: Map<number, { status: ChangeType; row: RowData | null }>;
+  /** Base row index the inserted rows follow (-1 for the top of the table) -> rows added or moved there. */
+  insertions: Map<number, Insertion[]>;
+}
+
+/**
+ * Replays one base -> version diff as per-row changes plus insertion points, so the two versions
+ * can be lined up against the same base rows.
+ */
+const collectSideChanges = (base: RowData[], output: ComparisonOutput): SideChanges => {
+  const baseIndex = new Map<RowData, number>(base.map((row, index) => [row, index]));
+  const changes: SideChanges['changes'] = new Map();
+  const insertions: SideChanges['insertions'] = new Map();
+  const insert = (anchor: number, insertion: Insertion) => {
+    insertions.set(anchor, [...(insertions.get(anchor) ?? []), insertion]);
+  };
+
+  let anchor = -1;
+  for (const pair of output.result.rows) {
+    const index = pair.original ? baseIndex.get(pair.original) : undefined;
+    if (pair.move?.role === 'to' && index !== undefined) {
+      changes.set(index, { status: ChangeType.MOVED, row: pair.revised });
+      insert(anchor, { row: pair.revised, movedFrom: index });
+    } else if (index === undefined) {
+      insert(anchor, { row: pair.revised });
+    } else {
+      // The old position of a moved row still anchors what follows it; its change is recorded at the 'to' row.
+      if (pair.move?.role !== 'from') {
+        changes.set(index, { status: pair.status, row: pair.revised });
+      }
+      anchor = index;
+    }
+  }
+  return { changes, insertions };
+};
+
+const isSameRow = (rowA: RowData | null, rowB: RowData | null, columns: string[], textDiff: TextDiffOptions): boolean => {
+  if (!rowA || !rowB) return rowA === rowB;
+  return columns.every(column => isSameCell(String(rowA[column] ?? '').trim(), String(rowB[column] ?? '').trim(), textDiff));
+};
+
+const classifyRow = (
+  aChange: ChangeType,
+  bChange: ChangeType,
+  aRow: RowData | null,
+  bRow: RowData | null,
+  columns: string[],
+  textDiff: TextDiffOptions
+): MergeStatus => {
+  const isChangedInA = aChange !== ChangeType.UNCHANGED;
+  const isChangedInB = bChange !== ChangeType.UNCHANGED;
+  if (!isChangedInA && !isChangedInB) return MergeStatus.UNCHANGED;
+  if (!isChangedInB) return MergeStatus.CHANGED_IN_A;
+  if (!isChangedInA) return MergeStatus.CHANGED_IN_B;
+  return aChange === bChange && isSameRow(aRow, bRow, columns, textDiff) ? MergeStatus.CHANGED_IN_BOTH : MergeStatus.CONFLICT;
+};
+
+const getMergedRow = (status: MergeStatus, base: RowData | null, a: RowData | null, b: RowData | null): RowData | null => {
+  switch (status) {
+    case MergeStatus.UNCHANGED:
+      return base;
+    case MergeStatus.CHANGED_IN_B:
+      return b;
+    case MergeStatus.CONFLICT:
+      return null;
+    default:
+      return a;
+  }
+};
+
+/**
+ * Lines up two versions edited from the same base. Each version is diffed against the base with the
+ * regular row pairing; base rows are then classified by which versions changed them, and rows added or
+ * moved by either version are placed after the base row they follow in that version.
+ */
+export const performThreeWayDiff = (
+  base: RowData[],
+  versionA: RowData[],
+  versionB: RowData[],
+  mode: ComparisonMode,
+  options: ComparisonOptions = DEFAULT_COMPARISON_OPTIONS,
+  onProgress?: (completed: number, total: number) => void
+): ThreeWayResult => {
+  const { keyColumn, comparedColumns } = options.schema;
+  const columns = [keyColumn, ...comparedColumns];
+  // Both diffs walk the base rows, so together they process twice the base length.
+  const sideA = collectSideChanges(base, performLcsDiff(base, versionA, mode, options, (completed, total) => onProgress?.(completed, total * 2)));
+  const sideB = collectSideChanges(base, performLcsDiff(base, versionB, mode, options, (completed, total) => onProgress?.(total + completed, total * 2)));
+
+  const rows: ThreeWayRow[] = [];
+  const pushRow = (row: Omit<ThreeWayRow, 'key' | 'merged'>) => {
+    rows.push({ ...row, key: `merge-${rows.length + 1}`, merged: getMergedRow(row.status, row.base, row.a, row.b) });
+  };
+
+  const pushBaseRow = (index: number) => {
+    const aChange = sideA.changes.get(index) ?? { status: ChangeType.DELETED, row: null };
+    const bChange = sideB.changes.get(index) ?? { status: ChangeType.DELETED, row: null };
+    pushRow({
+      status: classifyRow(aChange.status, bChange.status, aChange.row, bChange.row, columns, options.textDiff),
+      base: base[index],
+      a: aChange.row,
+      b: bChange.row,
+      aChange: aChange.status,
+      bChange: bChange.status,
+    });
+  };
+
+  const placedMoves = new Set<number>();
+  const pushInsertions = (anchor: number) => {
+    const additionsA: RowData[] = [];
+    const additionsB: RowData[] = [];
+
+    for (const [side, other] of [[sideA, sideB], [sideB, sideA]] as const) {
+      for (const insertion of side.insertions.get(anchor) ?? []) {
+        if (insertion.movedFrom === undefined) {
+          (side === sideA ? additionsA : additionsB).push(insertion.row);
+          continue;
+        }
+        if (placedMoves.has(insertion.movedFrom)) continue;
+        placedMoves.add(insertion.movedFrom);
+
+        // Moving a step to two different places is a conflict even when the content agrees.
+        const otherMove = other.insertions.get(anchor)?.some(i => i.movedFrom === insertion.movedFrom);
+        const otherChange = other.changes.get(insertion.movedFrom);
+        const isMovedElsewhere = otherChange?.status === ChangeType.MOVED && !otherMove;
+        const position = rows.length;
+        pushBaseRow(insertion.movedFrom);
+        if (isMovedElsewhere) {
+          rows[position] = { ...rows[position], status: MergeStatus.CONFLICT, merged: null };
+        }
+      }
+    }
+
+    // The same step added by both authors at the same place is one agreed change, not two.
+    const unmatchedB = [...additionsB];
+    for (const row of additionsA) {
+      const match = unmatchedB.findIndex(candidate => isSameRow(row, candidate, columns, options.textDiff));
+      if (match !== -1) {
+        pushRow({ status: MergeStatus.CHANGED_IN_BOTH, base: null, a: row, b: unmatchedB[match], aChange: ChangeType.ADDED, bChange: ChangeType.ADDED });
+        unmatchedB.splice(match, 1);
+      } else {
+        pushRow({ status: MergeStatus.CHANGED_IN_A, base: null, a: row, b: null, aChange: ChangeType.ADDED, bChange: null });
+      }
+    }
+    for (const row of unmatchedB) {
+      pushRow({ status: MergeStatus.CHANGED_IN_B, base: null, a: null, b: row, aChange: null, bChange: ChangeType.ADDED });
+    }
+  };
+
+  pushInsertions(-1);
+  base.forEach((_, index) => {
+    const isMoved = sideA.changes.get(index)?.status === ChangeType.MOVED || sideB.changes.get(index)?.status === ChangeType.MOVED;
+    if (!isMoved) pushBaseRow(index);
+    pushInsertions(index);
+  });
+
+  const headers = Array.from(new Set([base, versionA, versionB].flatMap(table => (table[0] ? Object.keys(table[0]) : []))));
+  return { headers, keyColumn, comparedColumns, subCategoryPatterns: options.subCategoryPatterns, textDiff: options.textDiff, rows };
+};
+
+/**
+ * Three-way counterpart of compareRawData: header detection and row merging for all three tables,
+ * then the three-way row diff.
+ */
+export const compareThreeWayRawData = (
+  baseRawData: any[][],
+  versionARawData: any[][],
+  versionBRawData: any[][],
+  mode: ComparisonMode,
+  options: ComparisonOptions = DEFAULT_COMPARISON_OPTIONS,
+  onProgress?: (completed: number, total: number) => void
+): ThreeWayResult => {
+  const base = processRawData(baseRawData, options.schema);
+  const versionA = processRawData(versionARawData, options.schema);
+  const versionB = processRawData(versionBRawData, options.schema);
+
+  if (base.length === 0 && versionA.length === 0 && versionB.length === 0) {
+    throw new Error(`No comparable test step data could be found in any of the files. Please ensure each file contains a table with a header row with ${formatRequiredHeaders(options.schema)}.`);
+  }
+
+  return performThreeWayDiff(base, versionA, versionB, mode, options, onProgress);
+};
+
+export const countMergeStatuses = (rows: ThreeWayRow[]): Record<MergeStatus, number> => {
+  const counts = Object.fromEntries(Object.values(MergeStatus).map(status => [status, 0])) as Record<MergeStatus, number>;
+  rows.forEach(row => { counts[row.status]++; });
+  return counts;
+};
@@ -0,0 +1,95 @@
+import { ChangeType, ComparisonMode, ComparisonOptions, RowData, StepHistory, VersionHistory } from '../types';
+import { DEFAULT_COMPARISON_OPTIONS, performLcsDiff, processRawData } from './comparisonEngine';
+import { formatRequiredHeaders } from './columnSchema';
+
+export interface NamedVersion {
+  name: string;
+  rawData: any[][];
+}
+
+/**
+ * Follows every step through an ordered list of versions by diffing each version against the one
+ * before it with the regular row pairing. Steps added later are listed after the step they follow
+ * in the version that introduced them; deleted steps stay where they were.
+ */
+export const buildVersionHistory = (
+  versions: NamedVersion[],
+  mode: ComparisonMode,
+  options: ComparisonOptions = DEFAULT_COMPARISON_OPTIONS,
+  onProgress?: (completed: number, total: number) => void
+): VersionHistory => {
+  if (versions.length < 2) {
+    throw new Error("Select at least two versions to build a history.");
+  }
+
+  const tables = versions.map(version => processRawData(version.rawData, options.schema));
+  if (tables.every(table => table.length === 0)) {
+    throw new Error(`No comparable test step data could be found in any of the files. Please ensure each file contains a table with a header row with ${formatRequiredHeaders(options.schema)}.`);
+  }
+
+  const versionCount = tables.length;
+  const createStep = (): StepHistory => ({
+    id: `step-${steps.length + 1}`,
+    rows: Array(versionCount).fill(null),
+    changes: Array(versionCount).fill(null),
+  });
+
+  const steps: StepHistory[] = [];
+  let stepByRow = new Map<RowData, StepHistory>();
+  for (const row of tables[0]) {
+    const step = createStep();
+    step.rows[0] = row;
+    step.changes[0] = ChangeType.UNCHANGED;
+    steps.push(step);
+    stepByRow.set(row, step);
+  }
+
+  // Progress counts the rows of every version that is diffed against its successor.
+  const totalRows = tables.slice(0, -1).reduce((sum, table) => sum + table.length, 0);
+  let rowsBefore = 0;
+  for (let i = 1; i < versionCount; i++) {
+    const { result } = performLcsDiff(tables[i - 1], tables[i], mode, options, completed => onProgress?.(rowsBefore + completed, totalRows));
+    rowsBefore += tables[i - 1].length;
+    const nextStepByRow = new Map<RowData, StepHistory>();
+    let previousStep: StepHistory | null = null;
+
+    for (const pair of result.rows) {
+      // A move is recorded once, at its new position, which has both rows.
+      if (pair.move?.role === 'from') continue;
+
+      let step = pair.original ? stepByRow.get(pair.original) : undefined;
+      if (!step) {
+        step = createStep();
+        steps.splice(previousStep ? steps.indexOf(previousStep) + 1 : 0, 0, step);
+      }
+      step.changes[i] = pair.status;
+      if (pair.revised) {
+        step.rows[i] = pair.revised;
+        nextStepByRow.set(pair.revised, step);
+      }
+      previousStep = step;
+    }
+    stepByRow = nextStepByRow;
+  }
+
+  const headers = Array.from(new Set(tables.flatMap(table => (table[0] ? Object.keys(table[0]) : []))));
+  return {
+    versionNames: versions.map(version => version.name),
+    headers,
+    keyColumn: options.schema.keyColumn,
+    comparedColumns: options.schema.comparedColumns,
+    subCategoryPatterns: options.subCategoryPatterns,
+    textDiff: options.textDiff,
+    steps,
+  };
+};
+
+/**
+ * The newest version of a step that still exists, used to label it in the timeline.
+ */
+export const getLatestRow = (step: StepHistory): RowData | null => {
+  for (let i = step.rows.length - 1; i >= 0; i--) {
+    if (step.rows[i]) return step.rows[i];
+  }
+  return null;
+};
@@ -0,0 +1,118 @@
+import { binaryStringToBytes, bytesToBinaryString, decodeText, DecodedText } from './textEncoding';
+
+interface MimePart {
+  headers: Record<string, string>;
+  /** The body as raw bytes, one character per byte, before its transfer encoding is undone. */
+  body: string;
+}
+
+/** Parses "text/html; charset=big5" into its value and lower-cased parameters. */
+const parseHeaderValue = (value: string): { value: string; params: Record<string, string> } => {
+  const [main, ...rest] = value.split(';');
+  const params: Record<string, string> = {};
+  rest.forEach(param => {
+    const separator = param.indexOf('=');
+    if (separator === -1) return;
+    params[param.slice(0, separator).trim().toLowerCase()] = param.slice(separator + 1).trim().replace(/^"(.*)"$/, '$1');
+  });
+  return { value: main.trim().toLowerCase(), params };
+};
+
+const parsePart = (text: string): MimePart => {
+  const match = /\r?\n\r?\n/.exec(text);
+  const headerText = match ? text.slice(0, match.index) : text;
+  const body = match ? text.slice(match.index + match[0].length) : '';
+  const headers: Record<string, string> = {};
+  // Folded header lines continue with whitespace.
+  headerText.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator > 0) headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+  });
+  return { headers, body };
+};
+
+const splitMultipart = (body: string, boundary: string): MimePart[] => {
+  const delimiter = `--${boundary}`;
+  const parts: MimePart[] = [];
+  // The text before the first delimiter is a preamble and the text after the closing one an epilogue.
+  const sections = body.split(delimiter).slice(1);
+  for (const section of sections) {
+    if (section.startsWith('--')) break;
+    parts.push(parsePart(section.replace(/^[ \t]*\r?\n/, '').replace(/\r?\n$/, '')));
+  }
+  return parts;
+};
+
+const decodeQuotedPrintable = (body: string): string =>
+  body
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+
+/** Undoes the Content-Transfer-Encoding of a part, returning its bytes as a binary string. */
+const decodeTransferEncoding = (part: MimePart): string => {
+  switch ((part.headers['content-transfer-encoding'] ?? '').toLowerCase()) {
+    case 'base64':
+      return atob(part.body.replace(/[^A-Za-z0-9+/=]/g, ''));
+    case 'quoted-printable':
+      return decodeQuotedPrintable(part.body);
+    default:
+      return part.body;
+  }
+};
+
+/** True when the start of a file looks like a MIME message, as .mht files and Word's "Single File Web Page" .doc files do. */
+export const isWebArchive = (data: ArrayBuffer | Uint8Array): boolean => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const head = bytesToBinaryString(bytes.subarray(0, 2048));
+  return /^(?:[\w-]+:.*\r?\n(?:[ \t].*\r?\n)*)*?(?:MIME-Version|Content-Type):/i.test(head);
+};
+
+const resolveResource = (resources: Map<string, string>, src: string): string | undefined => {
+  const reference = src.trim().replace(/^\.\//, '');
+  if (resources.has(reference)) return resources.get(reference);
+  // Word refers to "TC_files/image001.png" while the part is stored as "file:///C:/.../TC_files/image001.png".
+  for (const [location, dataUrl] of resources) {
+    if (location.endsWith(`/${reference}`)) return dataUrl;
+  }
+  return undefined;
+};
+
+/**
+ * Unpacks a MIME web archive (.mht/.mhtml) into the HTML of its page. Images stored in the archive
+ * are written into the page as data: URLs, so they can be compared and shown like inline images.
+ * Returns the page with the encoding it was decoded in.
+ */
+export const extractWebArchiveHtml = (data: ArrayBuffer | Uint8Array, encoding?: string): DecodedText => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const message = parsePart(bytesToBinaryString(bytes));
+  const contentType = parseHeaderValue(message.headers['content-type'] ?? 'text/html');
+
+  const parts = contentType.value.startsWith('multipart/') && contentType.params.boundary
+    ? splitMultipart(message.body, contentType.params.boundary)
+    : [message];
+  const typeOf = (part: MimePart) => parseHeaderValue(part.headers['content-type'] ?? 'text/plain');
+
+  const page = parts.find(part => typeOf(part).value === 'text/html');
+  if (!page) {
+    throw new Error("The web archive does not contain an HTML page.");
+  }
+
+  const resources = new Map<string, string>();
+  parts.forEach(part => {
+    const type = typeOf(part).value;
+    if (!type.startsWith('image/')) return;
+    const dataUrl = `data:${type};base64,${btoa(decodeTransferEncoding(part))}`;
+    const location = part.headers['content-location'];
+    const contentId = part.headers['content-id']?.replace(/^<|>$/g, '');
+    if (location) resources.set(location, dataUrl);
+    if (contentId) resources.set(`cid:${contentId}`, dataUrl);
+  });
+
+  const decoded = decodeText(binaryStringToBytes(decodeTransferEncoding(page)), encoding, typeOf(page).params.charset);
+  if (resources.size === 0) return decoded;
+  const text = decoded.text.replace(/(\ssrc\s*=\s*)(["'])(.*?)\2/gi, (attribute, prefix: string, quote: string, src: string) => {
+    const dataUrl = resolveResource(resources, src);
+    return dataUrl ? `${prefix}${quote}${dataUrl}${quote}` : attribute;
+  });
+  return { ...decoded, text };
+};
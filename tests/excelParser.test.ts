@@ -0,0 +1,27 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { test } from 'node:test';
+import { parseHTML } from 'linkedom';
+import { setDomEnvironment } from '../services/dom';
+import { parseHtmlString, TableRepair } from '../services/excelParser';
+import { getCleanTextContent, processRawData } from '../services/comparisonEngine';
+
+const { document, DOMParser } = parseHTML('<!DOCTYPE html><html><body></body></html>');
+setDomEnvironment({ document, DOMParser });
+
+const readFixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+
+test('a Step Order cell merged down keeps one step', () => {
+  const repairs: TableRepair[] = [];
+  const rows = processRawData(parseHtmlString(readFixture('merged-step-order.html'), undefined, repairs));
+
+  assert.deepEqual(
+    rows.map(row => [row['Step Order'], getCleanTextContent(row['Procedure']), getCleanTextContent(row['Expected Outcome'])]),
+    [
+      ['', 'Login', ''],
+      ['1', 'Open the appTap login', 'The login screen is shown'],
+      ['2', 'Enter the password', 'The home screen is shown'],
+    ]
+  );
+  assert.ok(repairs.some(repair => repair.row === 4 && repair.message.includes('Step Order merged with row 3')));
+});
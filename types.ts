@@ -7,6 +7,7 @@ export enum ChangeType {
   DELETED = 'DELETED',
   MODIFIED = 'MODIFIED',
   UNCHANGED = 'UNCHANGED',
+  MOVED = 'MOVED',
 }
 
 export interface ComparisonRow {
@@ -15,14 +16,263 @@ export interface ComparisonRow {
   originalData?: RowData;
 }
 
+/**
+ * A moved step appears twice in the result: a 'from' row at its old position (original only)
+ * and a 'to' row at its new position (original and revised, so edits can be diffed).
+ */
+export interface MoveInfo {
+  role: 'from' | 'to';
+  counterpartKey: string | number;
+  edited: boolean;
+}
+
+/** What changed in a MODIFIED row: its words, or only how they are formatted (fonts, spans, spacing). */
+export type ModificationKind = 'text' | 'formatting';
+
 export interface ComparisonRowPair {
   status: ChangeType;
   original: RowData | null;
   revised: RowData | null;
   key: string | number;
+  move?: MoveInfo;
+  /** Content mode: similarity (0–1) of the paired rows' Procedure + Expected Outcome text. */
+  similarity?: number;
+  /** MODIFIED rows only; results saved before it existed count as 'text'. */
+  modification?: ModificationKind;
 }
 
 export interface ComparisonResult {
   headers: string[];
   rows: ComparisonRowPair[];
-}
\ No newline at end of file
+  /** Column rows are matched on in step mode (and shown first in the table). */
+  keyColumn: string;
+  /** Columns whose differences mark a row MODIFIED and are shown side by side. */
+  comparedColumns: string[];
+  /** The sub-category rules the comparison ran with, for grouping rows into sections. */
+  subCategoryPatterns: string[];
+  /** The text diff settings the comparison ran with, for the inline highlights. */
+  textDiff: TextDiffOptions;
+  /**
+   * How many cells of paired rows had a difference hidden by each of `textDiff.ignoreRules`, by index.
+   * Absent in results saved before ignore rules existed.
+   */
+  suppressedDifferences?: number[];
+}
+
+export type ComparisonMode = 'step' | 'content';
+
+export interface DiffSummary {
+  added: number;
+  deleted: number;
+  modified: number;
+  /** How many of the modified rows only changed formatting. */
+  formattingOnly: number;
+  moved: number;
+}
+
+export type SummaryProviderKind = 'none' | 'gemini' | 'openai';
+
+export interface SummaryProviderConfig {
+  provider: SummaryProviderKind;
+  model: string;
+  /** OpenAI-compatible provider: base URL of the API, e.g. http://localhost:11434/v1 for Ollama. */
+  baseUrl: string;
+  apiKey: string;
+}
+
+export interface ChangeSummary {
+  text: string;
+  /** 'rules' when the text comes from the offline narrative rather than a language model. */
+  source: 'ai' | 'rules';
+}
+
+export interface SectionAnalysis {
+  summary: string;
+  /** Changes that make the test weaker or riskier, e.g. relaxed pass criteria in Expected Outcome. */
+  riskFlags: string[];
+  /** Areas that deserve regression testing because of these changes. */
+  regressionFocus: string[];
+}
+
+export type ReviewDecision = 'accepted' | 'rejected' | 'needs-discussion';
+
+export interface ReviewComment {
+  author: string;
+  text: string;
+  /** ISO timestamp. */
+  createdAt: string;
+}
+
+/** The sign-off of one change. `decision` is null while the change only has comments. */
+export interface ChangeReview {
+  decision: ReviewDecision | null;
+  decidedBy?: string;
+  decidedAt?: string;
+  comments: ReviewComment[];
+}
+
+export interface ComparisonOutput {
+  result: ComparisonResult;
+  diffSummary: DiffSummary;
+}
+
+export enum BatchStatus {
+  UNCHANGED = 'UNCHANGED',
+  MODIFIED = 'MODIFIED',
+  ADDED = 'ADDED',
+  REMOVED = 'REMOVED',
+  ERROR = 'ERROR',
+}
+
+export interface BatchEntry {
+  tcId: string;
+  originalFileName?: string;
+  revisedFileName?: string;
+  status: BatchStatus;
+  output?: ComparisonOutput;
+  error?: string;
+}
+
+export interface ColumnSchema {
+  keyColumn: string;
+  comparedColumns: string[];
+  /** Header text as written in a document -> the column name it stands for, e.g. "Expected Result" -> "Expected Outcome". */
+  headerAliases: Record<string, string>;
+}
+
+/** Text that changes between revisions without changing the test, such as a build number. */
+export interface IgnoreRule {
+  name: string;
+  /** Text to match, or a regular expression written as /expression/flags. */
+  pattern: string;
+  enabled: boolean;
+}
+
+/** How cell text is split for the inline highlights. */
+export type DiffGranularity = 'word' | 'character' | 'line';
+
+export interface TextDiffOptions {
+  granularity: DiffGranularity;
+  /** Differences of these kinds are not highlighted and do not make a row MODIFIED. */
+  ignoreCase: boolean;
+  ignoreWhitespace: boolean;
+  ignorePunctuation: boolean;
+  /** Text one of these rules matches compares equal to any other match of the same rule. */
+  ignoreRules: IgnoreRule[];
+}
+
+export interface ComparisonOptions {
+  /** Content mode: minimum similarity (0–1) of Procedure + Expected Outcome text for two rows to be paired. */
+  similarityThreshold: number;
+  schema: ColumnSchema;
+  /** Category rows whose title matches one of these (text, or /regex/) are sub-categories. */
+  subCategoryPatterns: string[];
+  /** Text encoding of uploaded HTML and CSV files; "auto" detects it from each file. */
+  encoding: string;
+  textDiff: TextDiffOptions;
+}
+
+export enum MergeStatus {
+  UNCHANGED = 'UNCHANGED',
+  CHANGED_IN_A = 'CHANGED_IN_A',
+  CHANGED_IN_B = 'CHANGED_IN_B',
+  CHANGED_IN_BOTH = 'CHANGED_IN_BOTH',
+  CONFLICT = 'CONFLICT',
+}
+
+/**
+ * One step of a three-way comparison. `aChange`/`bChange` say how each version changed the base row
+ * (null when the step exists only in the other version). `merged` is the row that goes into the merged
+ * document: null for a deleted step, and for a conflict, which is written out as both versions.
+ */
+export interface ThreeWayRow {
+  status: MergeStatus;
+  key: string;
+  base: RowData | null;
+  a: RowData | null;
+  b: RowData | null;
+  aChange: ChangeType | null;
+  bChange: ChangeType | null;
+  merged: RowData | null;
+}
+
+export interface ThreeWayResult {
+  headers: string[];
+  keyColumn: string;
+  comparedColumns: string[];
+  subCategoryPatterns: string[];
+  textDiff: TextDiffOptions;
+  rows: ThreeWayRow[];
+}
+
+/**
+ * One step followed through every version of a test case. `rows[i]` is the step in version i (null
+ * when it does not exist there) and `changes[i]` how it changed from version i - 1: UNCHANGED for a
+ * step already in the first version, DELETED in the version it disappears from, null while absent.
+ */
+export interface StepHistory {
+  id: string;
+  rows: (RowData | null)[];
+  changes: (ChangeType | null)[];
+}
+
+export interface VersionHistory {
+  versionNames: string[];
+  headers: string[];
+  keyColumn: string;
+  comparedColumns: string[];
+  subCategoryPatterns: string[];
+  textDiff: TextDiffOptions;
+  steps: StepHistory[];
+}
+
+/**
+ * Finds a row in the document a patch is applied to. Rows are matched on `value`; `section` only
+ * decides between rows that share it.
+ */
+export interface PatchAnchor {
+  /** The key column text (patches keyed by step), the first two lines of the Procedure (keyed by content), or a category title. */
+  value: string;
+  isCategory: boolean;
+  /** Title of the category the row sits in; empty before the first one. */
+  section: string;
+}
+
+/** Cell HTML before and after the change; `from` is checked before `to` is written. */
+export interface CellChange {
+  from: string;
+  to: string;
+}
+
+/**
+ * One hunk of a patch. Inserted and moved rows go after the `after` row (null: at the top), following
+ * any rows the same patch already placed there, so runs of new steps keep their order.
+ */
+export type PatchOperation =
+  | { op: 'insert'; after: PatchAnchor | null; row: RowData }
+  | { op: 'delete'; target: PatchAnchor; row: RowData }
+  | { op: 'modify'; target: PatchAnchor; changes: Record<string, CellChange> }
+  | { op: 'move'; target: PatchAnchor; after: PatchAnchor | null; changes: Record<string, CellChange> };
+
+export interface ComparisonPatch {
+  format: 'tc-comparator-patch';
+  version: number;
+  createdAt: string;
+  /** 'step': rows are found by their key column; 'content': by their Procedure text. */
+  keyedBy: ComparisonMode;
+  keyColumn: string;
+  comparedColumns: string[];
+  source: { original: string; revised: string };
+  operations: PatchOperation[];
+}
+
+export type HunkStatus = 'applied' | 'skipped' | 'failed';
+
+export interface HunkResult {
+  /** Position of the operation in the patch. */
+  index: number;
+  operation: PatchOperation;
+  status: HunkStatus;
+  /** Why a hunk failed or was skipped. */
+  message?: string;
+}
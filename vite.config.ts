@@ -12,7 +12,11 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.SUMMARY_PROVIDER': JSON.stringify(env.SUMMARY_PROVIDER),
+        'process.env.SUMMARY_MODEL': JSON.stringify(env.SUMMARY_MODEL),
+        'process.env.SUMMARY_BASE_URL': JSON.stringify(env.SUMMARY_BASE_URL),
+        'process.env.SUMMARY_API_KEY': JSON.stringify(env.SUMMARY_API_KEY)
       },
       resolve: {
         alias: {